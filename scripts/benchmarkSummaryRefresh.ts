@@ -0,0 +1,162 @@
+/**
+ * Goblin Bookie – Benchmark: Summary Refresh Read
+ *
+ * PURPOSE:
+ *   Measures the history read behind refreshSummaries (src/utils/priceSummary.ts), which
+ *   uploadToMongo.ts runs after every batch of 500 cards: reading the whole SUMMARY_LOOKBACK_DAYS
+ *   window (loadPriceTrees, the previous read) against reading only each series' latest point and
+ *   its 7-/30-day baselines (loadSeriesAnchors). Also checks that both give the same summaries.
+ *
+ * USAGE:
+ *   npx ts-node scripts/benchmarkSummaryRefresh.ts [--cards=2000]
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Seeds synthetic history into a separate 'goblin-bookie-benchmark' database on MONGO_URI and
+ *     drops it at the end, so the real data is never read or written.
+ *   - Every card gets every vendor, both price types and the normal and foil finishes, one point a
+ *     day for SUMMARY_LOOKBACK_DAYS + 15 days, with about one day in ten missing (seeded, so runs
+ *     are repeatable).
+ *   - Each read runs once untimed to warm the cache, then is timed over every batch.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import PricePoint from '../src/models/PricePoint';
+import { logInfo, logError } from '../src/utils/jsonHelpers';
+import { getFxConverter } from '../src/utils/currency';
+import { getVendorCurrency, shiftDate } from '../src/utils/priceHelpers';
+import { daysAgo, loadPriceTrees, loadSeriesAnchors, PriceTree } from '../src/utils/priceHistory';
+import {
+  computePriceSummary,
+  SUMMARY_CHANGE_DAYS,
+  SUMMARY_LOOKBACK_DAYS,
+} from '../src/utils/priceSummary';
+import { PRICE_TYPES, VENDOR_IDS } from '../src/utils/vendors';
+
+dotenv.config();
+
+const BENCHMARK_DB = 'goblin-bookie-benchmark';
+const BATCH_SIZE = 500;
+const INSERT_BATCH = 10000;
+const HISTORY_DAYS = SUMMARY_LOOKBACK_DAYS + 15;
+
+type BatchRead = (uuids: string[]) => Promise<Map<string, PriceTree>>;
+
+/** Card count from `--cards=N` (default 2000). */
+function cardCount(): number {
+  const arg = process.argv.find((a) => a.startsWith('--cards='));
+  const count = arg ? parseInt(arg.slice('--cards='.length), 10) : 2000;
+  if (!Number.isInteger(count) || count < 1) throw new Error('--cards must be a positive number');
+  return count;
+}
+
+/** Writes the synthetic history; returns the card uuids. */
+async function seed(cards: number): Promise<string[]> {
+  let state = 42;
+  const random = () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648;
+  const today = daysAgo(0);
+  const uuids: string[] = [];
+  let points: any[] = [];
+
+  for (let i = 0; i < cards; i++) {
+    const uuid = `benchmark-${String(i).padStart(6, '0')}`;
+    uuids.push(uuid);
+    for (const vendor of VENDOR_IDS) {
+      const currency = getVendorCurrency({}, vendor);
+      for (const priceType of PRICE_TYPES) {
+        for (const finish of ['normal', 'foil']) {
+          let price = 1 + random() * 50;
+          for (let day = HISTORY_DAYS; day >= 0; day--) {
+            price *= 0.97 + random() * 0.06;
+            if (random() < 0.1) continue;
+            const date = shiftDate(today, -day);
+            points.push({ uuid, vendor, priceType, finish, date, price, currency });
+          }
+        }
+      }
+    }
+    if (points.length >= INSERT_BATCH) {
+      await PricePoint.collection.insertMany(points, { ordered: false });
+      points = [];
+    }
+  }
+  if (points.length) await PricePoint.collection.insertMany(points, { ordered: false });
+  return uuids;
+}
+
+/** Number of points in a batch's price trees. */
+function countPoints(trees: Map<string, PriceTree>): number {
+  let count = 0;
+  for (const tree of trees.values()) {
+    for (const vendor of Object.values(tree)) {
+      for (const type of PRICE_TYPES) {
+        for (const dates of Object.values(vendor[type] || {})) {
+          count += Object.keys(dates).length;
+        }
+      }
+    }
+  }
+  return count;
+}
+
+/** Times `read` over every batch; resolves with the elapsed ms and the points read. */
+async function timeRead(batches: string[][], read: BatchRead) {
+  await read(batches[0]);
+  let points = 0;
+  const started = process.hrtime.bigint();
+  for (const batch of batches) points += countPoints(await read(batch));
+  const ms = Number(process.hrtime.bigint() - started) / 1e6;
+  return { ms, points };
+}
+
+async function main() {
+  const cards = cardCount();
+  await mongoose.connect(process.env.MONGO_URI!, { dbName: BENCHMARK_DB });
+  try {
+    await mongoose.connection.dropDatabase();
+    await PricePoint.syncIndexes();
+    logInfo('[benchmarkSummaryRefresh.ts]', `Seeding ${cards} cards of synthetic history...`);
+    const uuids = await seed(cards);
+    const batches: string[][] = [];
+    for (let i = 0; i < uuids.length; i += BATCH_SIZE) {
+      batches.push(uuids.slice(i, i + BATCH_SIZE));
+    }
+
+    const since = daysAgo(SUMMARY_LOOKBACK_DAYS);
+    const fullWindow: BatchRead = (batch) => loadPriceTrees(batch, { since });
+    const anchors: BatchRead = (batch) =>
+      loadSeriesAnchors(batch, { since, offsets: SUMMARY_CHANGE_DAYS });
+
+    const fx = await getFxConverter();
+    for (const batch of batches) {
+      const [before, after] = await Promise.all([fullWindow(batch), anchors(batch)]);
+      for (const uuid of batch) {
+        const expected = JSON.stringify(computePriceSummary(before.get(uuid), fx));
+        if (JSON.stringify(computePriceSummary(after.get(uuid), fx)) !== expected) {
+          throw new Error(`Summaries differ for ${uuid}`);
+        }
+      }
+    }
+
+    for (const [label, read] of [
+      ['full window (before)', fullWindow],
+      ['latest + baselines (after)', anchors],
+    ] as [string, BatchRead][]) {
+      const { ms, points } = await timeRead(batches, read);
+      logInfo(
+        '[benchmarkSummaryRefresh.ts]',
+        `${label}: ${Math.round(ms)} ms for ${batches.length} batch(es), ` +
+          `${Math.round(ms / batches.length)} ms/batch, ${Math.round((cards / ms) * 1000)} cards/s, ` +
+          `${points} points read`
+      );
+    }
+  } finally {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  }
+}
+
+main().catch((err) => {
+  logError('[benchmarkSummaryRefresh.ts]', `Benchmark failed: ${err?.stack || err}`);
+  process.exit(1);
+});
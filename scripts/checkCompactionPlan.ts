@@ -0,0 +1,106 @@
+/**
+ * Goblin Bookie – Self-Check: Compaction Plan
+ *
+ * PURPOSE:
+ *   Checks planBuckets (scripts/compactPrices.ts), which splits old price history into monthly
+ *   buckets before the weekly limit and ISO-week buckets up to the daily limit. Exits non-zero
+ *   when a check fails.
+ *
+ * USAGE:
+ *   npx ts-node scripts/checkCompactionPlan.ts   (also part of `npm test`)
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - The limits are relative to today (daysAgo), so the checks assert properties of the plan
+ *     (contiguous, aligned, inside the limits) rather than fixed dates.
+ */
+
+import assert from 'assert';
+import { Bucket, planBuckets } from './compactPrices';
+import { shiftDate } from '../src/utils/priceHelpers';
+import { daysAgo } from '../src/utils/priceHistory';
+import { runChecks } from '../src/utils/selfCheck';
+
+const POLICY = { dailyDays: 180, weeklyDays: 730 };
+
+const dailyLimit = daysAgo(POLICY.dailyDays);
+const monthlyEnd = `${daysAgo(POLICY.weeklyDays).slice(0, 7)}-01`;
+
+const isMonday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay() === 1;
+const of = (buckets: Bucket[], granularity: Bucket['granularity']) =>
+  buckets.filter((bucket) => bucket.granularity === granularity);
+
+/** Asserts every bucket ends where the next one starts. */
+function assertContiguous(buckets: Bucket[]) {
+  for (let i = 1; i < buckets.length; i++) {
+    assert.strictEqual(buckets[i].start, buckets[i - 1].end, `gap or overlap before bucket ${i}`);
+  }
+}
+
+// Earliest history well before the weekly limit, so the plan has both kinds of bucket
+const full = planBuckets(daysAgo(POLICY.weeklyDays + 400), POLICY);
+
+runChecks('planBuckets', [
+  {
+    name: 'monthly buckets come first, then weekly ones',
+    run: () => {
+      const kinds = full.map((bucket) => bucket.granularity);
+      assert.ok(kinds.includes('monthly') && kinds.includes('weekly'));
+      assert.strictEqual(kinds.indexOf('weekly'), kinds.lastIndexOf('monthly') + 1);
+    },
+  },
+  {
+    name: 'the plan has no gaps or overlaps',
+    run: () => assertContiguous(full),
+  },
+  {
+    name: 'monthly buckets are whole calendar months ending at the weekly limit',
+    run: () => {
+      const monthly = of(full, 'monthly');
+      assert.strictEqual(monthly[0].start, `${daysAgo(POLICY.weeklyDays + 400).slice(0, 7)}-01`);
+      for (const bucket of monthly) {
+        assert.ok(bucket.start.endsWith('-01') && bucket.end.endsWith('-01'), bucket.start);
+      }
+      assert.strictEqual(monthly[monthly.length - 1].end, monthlyEnd);
+    },
+  },
+  {
+    name: 'weekly buckets are Monday-to-Monday weeks, except a first week clipped to the limit',
+    run: () => {
+      of(full, 'weekly').forEach((bucket, i) => {
+        assert.ok(isMonday(bucket.end), `${bucket.end} is not a Monday`);
+        if (i === 0 && bucket.start === monthlyEnd) {
+          assert.ok(shiftDate(bucket.end, -7) <= bucket.start);
+        } else {
+          assert.strictEqual(bucket.start, shiftDate(bucket.end, -7));
+        }
+      });
+    },
+  },
+  {
+    name: 'weekly buckets stop at the last whole week before the daily limit',
+    run: () => {
+      const weekly = of(full, 'weekly');
+      const lastEnd = weekly[weekly.length - 1].end;
+      assert.ok(lastEnd <= dailyLimit, `${lastEnd} is after ${dailyLimit}`);
+      assert.ok(shiftDate(lastEnd, 7) > dailyLimit, 'a whole week before the limit was left out');
+    },
+  },
+  {
+    name: 'history that starts between the limits gets only weekly buckets',
+    run: () => {
+      const earliest = daysAgo(POLICY.dailyDays + 60);
+      const buckets = planBuckets(earliest, POLICY);
+      assert.deepStrictEqual(of(buckets, 'monthly'), []);
+      assert.ok(isMonday(buckets[0].start) && buckets[0].start <= earliest);
+      assert.ok(shiftDate(buckets[0].start, 7) > earliest);
+      assertContiguous(buckets);
+    },
+  },
+  {
+    name: 'history inside the daily window gets no buckets',
+    run: () => {
+      assert.deepStrictEqual(planBuckets(daysAgo(10), POLICY), []);
+      assert.deepStrictEqual(planBuckets(dailyLimit, POLICY), []);
+    },
+  },
+]);
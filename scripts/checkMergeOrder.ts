@@ -0,0 +1,103 @@
+/**
+ * Goblin Bookie – Self-Check: Merge Input Order
+ *
+ * PURPOSE:
+ *   Checks sortedReader (scripts/mergeSortedNdjson.ts), which feeds each side of the uuid join:
+ *   repeated uuids are counted and skipped (the first line wins), and a file that isn't sorted
+ *   fails the step. Exits non-zero when a check fails.
+ *
+ * USAGE:
+ *   npx ts-node scripts/checkMergeOrder.ts   (also part of `npm test`)
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Inputs are small files in a fresh OS temp directory, removed at the end.
+ */
+
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SideStats, sortedReader } from './mergeSortedNdjson';
+import { runChecks } from '../src/utils/selfCheck';
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'goblinbookie-merge-'));
+
+const newStats = (): SideStats => ({ lines: 0, orphans: 0, duplicates: 0, orphanSample: [] });
+
+/** Reads every object of a file made of `lines`; resolves with them and the reader's stats. */
+async function readAll(name: string, lines: string[]) {
+  const filePath = path.join(workDir, `${name}.ndjson`);
+  await fs.promises.writeFile(filePath, lines.map((line) => line + '\n').join(''));
+  const stats = newStats();
+  const next = sortedReader(filePath, name, stats);
+  const objects: any[] = [];
+  for (let obj = await next(); obj; obj = await next()) objects.push(obj);
+  return { objects, stats };
+}
+
+const line = (uuid: string, n = 1) => JSON.stringify({ uuid, n });
+
+runChecks('sortedReader', [
+  {
+    name: 'a sorted file is read in order',
+    run: async () => {
+      const { objects, stats } = await readAll('sorted', [line('B2'), line('a1'), line('b2')]);
+      assert.deepStrictEqual(
+        objects.map((obj) => obj.uuid),
+        ['B2', 'a1', 'b2']
+      );
+      assert.deepStrictEqual(stats, { ...newStats(), lines: 3 });
+    },
+  },
+  {
+    name: 'repeated uuids are counted and skipped, the first line wins',
+    run: async () => {
+      const lines = [line('a1', 1), line('a1', 2), line('b2', 1), line('b2', 2), line('b2', 3)];
+      const { objects, stats } = await readAll('duplicates', lines);
+      assert.deepStrictEqual(
+        objects.map((obj) => `${obj.uuid}:${obj.n}`),
+        ['a1:1', 'b2:1']
+      );
+      assert.strictEqual(stats.duplicates, 3);
+      assert.strictEqual(stats.lines, 2);
+    },
+  },
+  {
+    name: 'blank lines are ignored',
+    run: async () => {
+      const { objects, stats } = await readAll('blank', [line('a1'), '', '  ', line('b2')]);
+      assert.strictEqual(objects.length, 2);
+      assert.strictEqual(stats.lines, 2);
+    },
+  },
+  {
+    name: 'an out-of-order uuid fails the read',
+    run: () =>
+      assert.rejects(readAll('unsorted', [line('a1'), line('c3'), line('b2')]), {
+        message: 'unsorted is not sorted by uuid: b2 comes after c3',
+      }),
+  },
+  {
+    name: 'the order is by code unit, so a lowercase uuid before an uppercase one fails',
+    run: () => assert.rejects(readAll('locale', [line('a1'), line('B2')]), /is not sorted/),
+  },
+  {
+    name: 'a line without a string uuid fails the read',
+    run: async () => {
+      await assert.rejects(readAll('missing', [line('a1'), '{"n":1}']), {
+        message: 'missing: line without a uuid',
+      });
+      await assert.rejects(readAll('numeric', ['{"uuid":7}']), {
+        message: 'numeric: line without a uuid',
+      });
+    },
+  },
+  {
+    name: 'an empty file yields nothing',
+    run: async () => {
+      const { objects, stats } = await readAll('empty', []);
+      assert.deepStrictEqual(objects, []);
+      assert.deepStrictEqual(stats, newStats());
+    },
+  },
+]).finally(() => fs.rmSync(workDir, { recursive: true, force: true }));
@@ -0,0 +1,147 @@
+/**
+ * Goblin Bookie – Self-Check: Outlier Quarantine
+ *
+ * PURPOSE:
+ *   Checks checkPoint and sustainedMove (scripts/validatePrices.ts): a one-day spike against the
+ *   series' 30-day median is quarantined, while a price that stays at its new level is released
+ *   as a sustained move instead of being quarantined every day. Exits non-zero when a check fails.
+ *
+ * USAGE:
+ *   npx ts-node scripts/checkOutlierQuarantine.ts   (also part of `npm test`)
+ */
+
+import assert from 'assert';
+import { checkPoint, Point, sustainedMove } from './validatePrices';
+import { shiftDate } from '../src/utils/priceHelpers';
+import { PriceTree } from '../src/utils/priceHistory';
+import { runChecks } from '../src/utils/selfCheck';
+
+const FACTOR = 5;
+const DAY_ONE = '2025-06-01';
+
+const point = (date: string, price: number): Point => ({
+  uuid: 'card',
+  vendor: 'tcgplayer',
+  priceType: 'retail',
+  finish: 'normal',
+  date,
+  price,
+  currency: 'USD',
+});
+
+/** Accepted history: `price` every day for the 30 days before DAY_ONE, plus `extra` dates. */
+function historyAt(price: number, extra: Record<string, number> = {}): PriceTree {
+  const dates: Record<string, number> = {};
+  for (let day = 1; day <= 30; day++) dates[shiftDate(DAY_ONE, -day)] = price;
+  Object.assign(dates, extra);
+  return { tcgplayer: { currency: 'USD', retail: { normal: dates } } };
+}
+
+const day = (n: number) => shiftDate(DAY_ONE, n);
+
+/**
+ * Runs the daily decision for a series whose prices are `prices` (one per day from DAY_ONE), the
+ * way validateBatch and the upload do: flagged points wait in `pending` until the move counts as
+ * sustained, and accepted or released points join history. Returns what happened each day.
+ */
+function simulate(history: PriceTree, prices: number[]): string[] {
+  const dates = (history.tcgplayer as any).retail.normal;
+  const pending: Point[] = [];
+  return prices.map((price, i) => {
+    const today = point(day(i), price);
+    if (!checkPoint(today, history, FACTOR)) {
+      dates[today.date] = price;
+      return 'accepted';
+    }
+    const released = sustainedMove(today, history, pending, FACTOR);
+    if (!released) {
+      pending.push(today);
+      return 'quarantined';
+    }
+    for (const p of [...released, today]) dates[p.date] = p.price;
+    pending.length = 0;
+    return `released ${released.length + 1}`;
+  });
+}
+
+runChecks('outlier quarantine', [
+  {
+    name: 'a price within the factor of the median is accepted',
+    run: () => assert.strictEqual(checkPoint(point(DAY_ONE, 45), historyAt(10), FACTOR), null),
+  },
+  {
+    name: 'a jump above or below the factor is flagged with the median',
+    run: () => {
+      const history = historyAt(10);
+      assert.deepStrictEqual(checkPoint(point(DAY_ONE, 51), history, FACTOR), {
+        reason: 'above median',
+        median: 10,
+      });
+      assert.deepStrictEqual(checkPoint(point(DAY_ONE, 1.9), history, FACTOR), {
+        reason: 'below median',
+        median: 10,
+      });
+    },
+  },
+  {
+    name: 'a jump close to the latest accepted price is not flagged',
+    run: () => {
+      const history = historyAt(10, { [day(-1)]: 55 });
+      assert.strictEqual(checkPoint(point(DAY_ONE, 60), history, FACTOR), null);
+    },
+  },
+  {
+    name: 'a series with too little history is not checked',
+    run: () => {
+      const history: PriceTree = { tcgplayer: { retail: { normal: { [day(-1)]: 10 } } } };
+      assert.strictEqual(checkPoint(point(DAY_ONE, 1000), history, FACTOR), null);
+    },
+  },
+  {
+    name: 'a sustained move is released on its third day, and later days pass',
+    run: () =>
+      assert.deepStrictEqual(simulate(historyAt(10), [60, 62, 61, 63, 59]), [
+        'quarantined',
+        'quarantined',
+        'released 3',
+        'accepted',
+        'accepted',
+      ]),
+  },
+  {
+    name: 'a one-day spike stays quarantined',
+    run: () =>
+      assert.deepStrictEqual(simulate(historyAt(10), [99, 10, 10]), [
+        'quarantined',
+        'accepted',
+        'accepted',
+      ]),
+  },
+  {
+    name: 'pending points before the last accepted price do not count',
+    run: () => {
+      const history = historyAt(10, { [day(1)]: 10 });
+      const pending = [point(day(0), 60)];
+      assert.strictEqual(sustainedMove(point(day(2), 60), history, pending, FACTOR), null);
+      const later = [...pending, point(day(2), 60)];
+      assert.strictEqual(sustainedMove(point(day(3), 60), history, later, FACTOR), null);
+    },
+  },
+  {
+    name: 'pending points at different levels are not a sustained move',
+    run: () => {
+      const pending = [point(day(0), 60), point(day(1), 400)];
+      assert.strictEqual(sustainedMove(point(day(2), 61), historyAt(10), pending, FACTOR), null);
+    },
+  },
+  {
+    name: 'a sustained drop is released too',
+    run: () =>
+      assert.deepStrictEqual(simulate(historyAt(100), [12, 11, 12, 13]), [
+        'quarantined',
+        'quarantined',
+        'released 3',
+        'accepted',
+      ]),
+  },
+]);
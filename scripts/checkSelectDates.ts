@@ -0,0 +1,88 @@
+/**
+ * Goblin Bookie – Self-Check: Price Date Selection
+ *
+ * PURPOSE:
+ *   Checks selectDates (scripts/parsePrices.ts), which decides which dates of each price series
+ *   a run keeps: the latest date on daily runs, plus gap repairs, or a date range when
+ *   backfilling. Exits non-zero when a check fails.
+ *
+ * USAGE:
+ *   npx ts-node scripts/checkSelectDates.ts   (also part of `npm test`)
+ */
+
+import assert from 'assert';
+import { GapTargets, selectDates } from './parsePrices';
+import { runChecks } from '../src/utils/selfCheck';
+
+const DAILY = { backfill: false };
+const NO_GAPS: GapTargets = { dates: new Set(), cards: new Set() };
+
+const series = {
+  '2025-06-01': 1.1,
+  '2025-06-02': 1.2,
+  '2025-06-03': 1.3,
+  '2025-06-04': 1.4,
+};
+
+/** selectDates output in date order, so checks don't depend on the order dates were pushed. */
+const select = (...args: Parameters<typeof selectDates>) => selectDates(...args).sort();
+
+runChecks('selectDates', [
+  {
+    name: 'daily run keeps only the latest date',
+    run: () => assert.deepStrictEqual(select('a', series, DAILY, NO_GAPS), ['2025-06-04']),
+  },
+  {
+    name: 'keys that are not YYYY-MM-DD dates are ignored',
+    run: () => {
+      const withJunk = { ...series, '2025-13': 9, latest: 9 } as Record<string, number>;
+      assert.deepStrictEqual(select('a', withJunk, DAILY, NO_GAPS), ['2025-06-04']);
+    },
+  },
+  {
+    name: 'daily run adds missing gap dates to the latest date',
+    run: () => {
+      const gaps = { dates: new Set(['2025-06-02', '2025-05-01']), cards: new Set<string>() };
+      assert.deepStrictEqual(select('a', series, DAILY, gaps), ['2025-06-02', '2025-06-04']);
+    },
+  },
+  {
+    name: 'a gap on the latest date is not returned twice',
+    run: () => {
+      const gaps = { dates: new Set(['2025-06-04']), cards: new Set<string>() };
+      assert.deepStrictEqual(select('a', series, DAILY, gaps), ['2025-06-04']);
+    },
+  },
+  {
+    name: 'a card that fell behind gets every date',
+    run: () => {
+      const gaps = { dates: new Set<string>(), cards: new Set(['a']) };
+      assert.deepStrictEqual(select('a', series, DAILY, gaps), Object.keys(series));
+      assert.deepStrictEqual(select('b', series, DAILY, gaps), ['2025-06-04']);
+    },
+  },
+  {
+    name: 'backfill keeps every date',
+    run: () =>
+      assert.deepStrictEqual(select('a', series, { backfill: true }, NO_GAPS), Object.keys(series)),
+  },
+  {
+    name: 'backfill range is inclusive on both ends',
+    run: () => {
+      const options = { backfill: true, since: '2025-06-02', until: '2025-06-03' };
+      assert.deepStrictEqual(select('a', series, options, NO_GAPS), ['2025-06-02', '2025-06-03']);
+    },
+  },
+  {
+    name: 'backfill ignores gap targets',
+    run: () => {
+      const gaps = { dates: new Set(['2025-06-01']), cards: new Set(['a']) };
+      const options = { backfill: true, since: '2025-06-03' };
+      assert.deepStrictEqual(select('a', series, options, gaps), ['2025-06-03', '2025-06-04']);
+    },
+  },
+  {
+    name: 'an empty series selects nothing',
+    run: () => assert.deepStrictEqual(select('a', {}, DAILY, NO_GAPS), []),
+  },
+]);
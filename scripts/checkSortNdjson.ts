@@ -0,0 +1,136 @@
+/**
+ * Goblin Bookie – Self-Check: NDJSON Sort Order
+ *
+ * PURPOSE:
+ *   Checks compareKeys and sortNdjson (src/utils/sortNdjson.ts), the external merge sort that
+ *   orders parsedCards/parsedPrices by uuid before the merge step. Exits non-zero when a check
+ *   fails.
+ *
+ * USAGE:
+ *   npx ts-node scripts/checkSortNdjson.ts   (also part of `npm test`)
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Sorts run on small files in a fresh OS temp directory (removed at the end), with a memory
+ *     budget of a few hundred bytes so the input spills into several run files and goes through
+ *     the k-way merge.
+ */
+
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sortNdjson, { compareKeys, SortNdjsonOptions } from '../src/utils/sortNdjson';
+import { runChecks } from '../src/utils/selfCheck';
+
+// Budget small enough that every few lines make a run
+const TINY_BUDGET = 400;
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'goblinbookie-sort-'));
+
+/** Sorts `lines` with `options`; resolves with the result counts and the output lines. */
+async function sortLines(name: string, lines: string[], options: SortNdjsonOptions = {}) {
+  const input = path.join(workDir, `${name}.ndjson`);
+  const output = path.join(workDir, `${name}Sorted.ndjson`);
+  await fs.promises.writeFile(input, lines.map((line) => line + '\n').join(''));
+  const result = await sortNdjson(input, output, { tmpDir: workDir, ...options });
+  const written = (await fs.promises.readFile(output, 'utf-8')).split('\n').filter(Boolean);
+  return { result, written };
+}
+
+/** Cards with shuffled uuids; `n` tags lines that share a uuid so stability can be checked. */
+const cards = [
+  { uuid: 'd4', n: 1 },
+  { uuid: 'a1', n: 1 },
+  { uuid: 'c3', n: 1 },
+  { uuid: 'a1', n: 2 },
+  { uuid: 'B2', n: 1 },
+  { uuid: 'e5', n: 1 },
+  { uuid: 'a1', n: 3 },
+  { uuid: 'c3', n: 2 },
+  { uuid: 'b2', n: 1 },
+].map((card) => JSON.stringify(card));
+
+const EXPECTED_ORDER = ['B2:1', 'a1:1', 'a1:2', 'a1:3', 'b2:1', 'c3:1', 'c3:2', 'd4:1', 'e5:1'];
+
+const tags = (lines: string[]) =>
+  lines.map((line) => {
+    const { uuid, n } = JSON.parse(line);
+    return `${uuid}:${n}`;
+  });
+
+runChecks('sortNdjson', [
+  {
+    name: 'compareKeys orders by UTF-16 code unit',
+    run: () => {
+      assert.strictEqual(compareKeys('a', 'b'), -1);
+      assert.strictEqual(compareKeys('b', 'a'), 1);
+      assert.strictEqual(compareKeys('a', 'a'), 0);
+      // Uppercase sorts before lowercase, digits as characters, prefixes first
+      assert.strictEqual(compareKeys('Z', 'a'), -1);
+      assert.strictEqual(compareKeys('10', '9'), -1);
+      assert.strictEqual(compareKeys('ab', 'abc'), -1);
+    },
+  },
+  {
+    name: 'compareKeys agrees with a plain Array sort, not localeCompare',
+    run: () => {
+      const keys = ['b', 'A', 'a', 'é', 'e', '1', 'B'];
+      assert.deepStrictEqual([...keys].sort(compareKeys), [...keys].sort());
+    },
+  },
+  {
+    name: 'an input that fits in memory is sorted in one run',
+    run: async () => {
+      const { result, written } = await sortLines('inMemory', cards);
+      assert.deepStrictEqual(tags(written), EXPECTED_ORDER);
+      assert.deepStrictEqual(result, { total: cards.length, skipped: 0, runs: 1 });
+    },
+  },
+  {
+    name: 'a spilled sort is ordered and stable across run files',
+    run: async () => {
+      const { result, written } = await sortLines('spilled', cards, {
+        memoryBudgetBytes: TINY_BUDGET,
+      });
+      assert.ok(result.runs > 2, `expected several runs, got ${result.runs}`);
+      assert.strictEqual(result.total, cards.length);
+      assert.deepStrictEqual(tags(written), EXPECTED_ORDER);
+    },
+  },
+  {
+    name: 'lines are written unchanged',
+    run: async () => {
+      const { written } = await sortLines('unchanged', cards, { memoryBudgetBytes: TINY_BUDGET });
+      assert.deepStrictEqual([...written].sort(), [...cards].sort());
+    },
+  },
+  {
+    name: 'invalid JSON and lines without a string key are skipped',
+    run: async () => {
+      const lines = [cards[0], '{not json', JSON.stringify({ uuid: 7 }), '{}', cards[1]];
+      const { result, written } = await sortLines('invalid', lines, {
+        memoryBudgetBytes: TINY_BUDGET,
+      });
+      assert.strictEqual(result.skipped, 3);
+      assert.deepStrictEqual(tags(written), ['a1:1', 'd4:1']);
+    },
+  },
+  {
+    name: 'a key function sorts by its result',
+    run: async () => {
+      const { written } = await sortLines('keyFunction', cards, {
+        key: (item) => `${item.n}-${item.uuid}`,
+        memoryBudgetBytes: TINY_BUDGET,
+      });
+      assert.deepStrictEqual(tags(written).slice(0, 3), ['B2:1', 'a1:1', 'b2:1']);
+      assert.deepStrictEqual(tags(written).slice(-1), ['a1:3']);
+    },
+  },
+  {
+    name: 'run files are removed after the sort',
+    run: () => {
+      const leftovers = fs.readdirSync(workDir).filter((file) => file.includes('.run-'));
+      assert.deepStrictEqual(leftovers, []);
+    },
+  },
+]).finally(() => fs.rmSync(workDir, { recursive: true, force: true }));
@@ -0,0 +1,122 @@
+/**
+ * Goblin Bookie – Self-Check: Sync Anomaly Thresholds
+ *
+ * PURPOSE:
+ *   Checks findAnomalies (src/utils/syncReport.ts), which flags a daily run whose watched counts
+ *   are zero or dropped more than SYNC_ANOMALY_DROP_PCT below the previous run. Exits non-zero
+ *   when a check fails.
+ *
+ * USAGE:
+ *   npx ts-node scripts/checkSyncAnomalies.ts   (also part of `npm test`)
+ */
+
+import assert from 'assert';
+import { RunManifest, StepCounts, StepStatus } from '../src/utils/pipeline';
+import { findAnomalies } from '../src/utils/syncReport';
+import { runChecks } from '../src/utils/selfCheck';
+
+type Counts = { cards?: number; prices?: number; points?: number };
+
+/** A finished run whose watched steps succeeded with the given counts. */
+function runWith(counts: Counts, status: StepStatus = 'succeeded'): RunManifest {
+  const step = (name: string, values: StepCounts) => ({ name, status, counts: values });
+  return {
+    runId: 'check',
+    status: 'succeeded',
+    startedAt: '2025-06-01T00:00:00.000Z',
+    options: { backfill: false },
+    steps: [
+      step('parseCards', { kept: counts.cards ?? 1000 }),
+      step('parsePrices', { kept: counts.prices ?? 900 }),
+      step('uploadToMongo', { pricePoints: counts.points ?? 5000 }),
+    ],
+  };
+}
+
+/** Previous-run counts in the shape loadPreviousCounts returns. */
+function previousWith(counts: Counts): Map<string, StepCounts> {
+  return new Map<string, StepCounts>([
+    ['parseCards', { kept: counts.cards ?? 1000 }],
+    ['parsePrices', { kept: counts.prices ?? 900 }],
+    ['uploadToMongo', { pricePoints: counts.points ?? 5000 }],
+  ]);
+}
+
+/** Runs `fn` with SYNC_ANOMALY_DROP_PCT set to `value` (unset if undefined), then restores it. */
+function withDropPct<T>(value: string | undefined, fn: () => T): T {
+  const saved = process.env.SYNC_ANOMALY_DROP_PCT;
+  if (value === undefined) delete process.env.SYNC_ANOMALY_DROP_PCT;
+  else process.env.SYNC_ANOMALY_DROP_PCT = value;
+  try {
+    return fn();
+  } finally {
+    if (saved === undefined) delete process.env.SYNC_ANOMALY_DROP_PCT;
+    else process.env.SYNC_ANOMALY_DROP_PCT = saved;
+  }
+}
+
+const anomalies = (run: RunManifest, previous: Map<string, StepCounts>, dropPct?: string) =>
+  withDropPct(dropPct, () => findAnomalies(run, previous));
+
+runChecks('findAnomalies', [
+  {
+    name: 'unchanged counts are not anomalies',
+    run: () => assert.deepStrictEqual(anomalies(runWith({}), previousWith({})), []),
+  },
+  {
+    name: 'a zero count is an anomaly, even without a previous run',
+    run: () => {
+      const found = anomalies(runWith({ points: 0 }), new Map());
+      assert.deepStrictEqual(found, ['uploadToMongo: 0 price points written']);
+    },
+  },
+  {
+    name: 'a drop of more than the default 10% is an anomaly',
+    run: () => {
+      const found = anomalies(runWith({ cards: 880 }), previousWith({}));
+      assert.strictEqual(found.length, 1);
+      assert.match(found[0], /^parseCards: kept cards down 12\.0% \(1000 -> 880, limit 10%\)$/);
+    },
+  },
+  {
+    name: 'a drop of exactly the limit is tolerated',
+    run: () => assert.deepStrictEqual(anomalies(runWith({ cards: 900 }), previousWith({})), []),
+  },
+  {
+    name: 'counts not marked `drop` may fall without an anomaly',
+    run: () => assert.deepStrictEqual(anomalies(runWith({ points: 10 }), previousWith({})), []),
+  },
+  {
+    name: 'increases are never anomalies',
+    run: () => assert.deepStrictEqual(anomalies(runWith({ prices: 5000 }), previousWith({})), []),
+  },
+  {
+    name: 'SYNC_ANOMALY_DROP_PCT raises the limit',
+    run: () => {
+      const run = runWith({ prices: 720 }); // 20% below 900
+      assert.strictEqual(anomalies(run, previousWith({})).length, 1);
+      assert.deepStrictEqual(anomalies(run, previousWith({}), '25'), []);
+    },
+  },
+  {
+    name: 'an invalid SYNC_ANOMALY_DROP_PCT falls back to 10%',
+    run: () => {
+      assert.strictEqual(anomalies(runWith({ cards: 880 }), previousWith({}), 'abc').length, 1);
+      assert.strictEqual(anomalies(runWith({ cards: 880 }), previousWith({}), '-5').length, 1);
+    },
+  },
+  {
+    name: 'a previous count of zero or none skips the drop check',
+    run: () => {
+      assert.deepStrictEqual(anomalies(runWith({ cards: 1 }), previousWith({ cards: 0 })), []);
+      assert.deepStrictEqual(anomalies(runWith({ cards: 1 }), new Map()), []);
+    },
+  },
+  {
+    name: 'steps that did not succeed are not checked',
+    run: () => {
+      assert.deepStrictEqual(anomalies(runWith({ cards: 0 }, 'failed'), previousWith({})), []);
+      assert.deepStrictEqual(anomalies(runWith({ cards: 0 }, 'skipped'), previousWith({})), []);
+    },
+  },
+]);
@@ -3,43 +3,58 @@
  *
  * PURPOSE:
  *   Deletes all temporary files in /temp generated during the sync pipeline,
- *   except for a single `.keep` file (which ensures the directory is retained in Git).
+ *   except for a single `.keep` file (which ensures the directory is retained in Git) and the
+ *   MTGJSON downloads with their `.sha256` checksums, which let downloadJson.ts skip files that
+ *   haven't changed on the next run. The run manifest (runManifest.json) is kept too, so the last
+ *   run's step statuses stay inspectable.
  *
  * IMPLEMENTATION DETAILS:
  *   - Reads all files in /temp
- *   - Deletes all except `.keep`.
- *   - Logs each deletion and a summary, or any errors encountered.
+ *   - Deletes all except `.keep`, runManifest.json and the cached downloads (plus any `.part`
+ *     file and the checksum it was started for, so an interrupted download can resume).
+ *   - Logs each deletion and a summary; a failed deletion fails the step.
  */
 
 import fs from 'fs';
 import path from 'path';
-import { logInfo, logError } from '../src/utils/jsonHelpers';
+import { logInfo } from '../src/utils/jsonHelpers';
+import { PipelineStep, RUN_MANIFEST_FILE, runStandalone, TEMP_DIR } from '../src/utils/pipeline';
 
-const tempDir = path.join(__dirname, '../temp');
-const keepFile = '.keep'; // File to always retain
+const tempDir = TEMP_DIR;
+const keepFiles = ['.keep', RUN_MANIFEST_FILE]; // Files to always retain
+// MTGJSON downloads kept as a cache between runs (with their .sha256 / .part companions)
+const cachedDownloads =
+  /^(AllIdentifiers|AllPrices|AllPricesToday|SetList)\.json(\.part)?(\.sha256)?$/;
 
 /**
- * Deletes all files in the directory except for the one specified.
+ * Deletes all files in the directory except for the ones specified.
  * Logs every file deleted and a summary on completion.
  */
-async function cleanDirectoryExcept(fileToKeep: string) {
-  try {
-    const files = await fs.promises.readdir(tempDir);
-
-    const deletions = files
-      .filter((file) => file !== fileToKeep)
-      .map((file) =>
-        fs.promises
-          .unlink(path.join(tempDir, file))
-          .then(() => logInfo('[cleanUp.ts]', `Deleted file: ${file}`))
-      );
-
-    await Promise.all(deletions);
-
-    logInfo('[cleanUp.ts]', `Cleaned directory: ${tempDir} (except ${fileToKeep})`);
-  } catch (err: any) {
-    logError('[cleanUp.ts]', `Cleanup failed: ${err.message}`);
-  }
+async function cleanDirectoryExcept(filesToKeep: string[]) {
+  const files = await fs.promises.readdir(tempDir);
+
+  const deletions = files
+    .filter((file) => !filesToKeep.includes(file) && !cachedDownloads.test(file))
+    .map((file) =>
+      fs.promises
+        .unlink(path.join(tempDir, file))
+        .then(() => logInfo('[cleanUp.ts]', `Deleted file: ${file}`))
+    );
+
+  await Promise.all(deletions);
+
+  logInfo(
+    '[cleanUp.ts]',
+    `Cleaned directory: ${tempDir} (except ${filesToKeep.join(', ')} and cached downloads)`
+  );
 }
 
-cleanDirectoryExcept(keepFile);
+export const cleanUpStep: PipelineStep = {
+  name: 'cleanUp',
+  description: 'Clean up temp files',
+  inputs: [],
+  outputs: [],
+  run: () => cleanDirectoryExcept(keepFiles),
+};
+
+if (require.main === module) runStandalone(cleanUpStep);
@@ -0,0 +1,226 @@
+/**
+ * Goblin Bookie – Compact Old Price History
+ *
+ * PURPOSE:
+ *   Downsamples old PricePoint history so storage and history responses stop growing without
+ *   limit: daily points are kept for recent dates, one point per week after that, and one point
+ *   per month for the oldest history.
+ *
+ * CONTEXT:
+ *   - Optional pipeline step: runDailySync.ts only runs it when asked
+ *     (`--with=compactPrices` or `--only=compactPrices`); it can also be run on its own.
+ *   - Every compacted range is recorded in the PriceCompaction collection and skipped by later
+ *     runs, so a regular run only scans the week/month that just became eligible.
+ *
+ * POLICY (env, in days before today):
+ *   - PRICE_RETENTION_DAILY_DAYS  (default 180): newer points are never touched. At least 90, so
+ *     the AllPrices.json window used by gap detection and movers stays at daily resolution.
+ *   - PRICE_RETENTION_WEEKLY_DAYS (default 730): between the two limits, one point per ISO week
+ *     (Monday to Sunday); before it, one point per calendar month.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Only whole buckets older than the limits are compacted; a week that straddles the monthly
+ *     limit is clipped to start at the first month kept weekly.
+ *   - In each bucket, every series (card/vendor/type/finish) keeps its latest point (the closing
+ *     price of the week/month), and the others are deleted in batched deleteMany operations.
+ *   - `--dry-run` counts what would be removed (points and approximate BSON bytes) without
+ *     deleting or recording anything.
+ *   - Writes temp/compactionReport.json with the policy, totals and every range that had points
+ *     to remove.
+ *
+ * USAGE:
+ *   npx ts-node scripts/compactPrices.ts [--dry-run]
+ */
+
+import fs from 'fs';
+import PricePoint from '../src/models/PricePoint';
+import PriceCompaction from '../src/models/PriceCompaction';
+import { logInfo } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone, tempPath } from '../src/utils/pipeline';
+import { shiftDate } from '../src/utils/priceHelpers';
+import { daysAgo } from '../src/utils/priceHistory';
+
+const MIN_DAILY_DAYS = 90;
+const DEFAULT_DAILY_DAYS = 180;
+const DEFAULT_WEEKLY_DAYS = 730;
+const DELETE_BATCH = 1000;
+
+type Granularity = 'weekly' | 'monthly';
+export type Bucket = { granularity: Granularity; start: string; end: string };
+type BucketResult = Bucket & { series: number; pointsRemoved: number; bytesRemoved: number };
+
+/** Reads the retention policy from the environment; throws on an invalid combination. */
+function retentionPolicy(): { dailyDays: number; weeklyDays: number } {
+  const read = (name: string, fallback: number) => {
+    const value = process.env[name] ? Number(process.env[name]) : fallback;
+    if (!Number.isInteger(value) || value < 0) throw new Error(`${name} must be a whole number`);
+    return value;
+  };
+  const dailyDays = read('PRICE_RETENTION_DAILY_DAYS', DEFAULT_DAILY_DAYS);
+  const weeklyDays = read('PRICE_RETENTION_WEEKLY_DAYS', DEFAULT_WEEKLY_DAYS);
+  if (dailyDays < MIN_DAILY_DAYS) {
+    throw new Error(`PRICE_RETENTION_DAILY_DAYS must be at least ${MIN_DAILY_DAYS}`);
+  }
+  if (weeklyDays < dailyDays) {
+    throw new Error('PRICE_RETENTION_WEEKLY_DAYS must not be below PRICE_RETENTION_DAILY_DAYS');
+  }
+  return { dailyDays, weeklyDays };
+}
+
+const monthStart = (date: string) => `${date.slice(0, 7)}-01`;
+
+function nextMonth(date: string): string {
+  const d = new Date(`${monthStart(date)}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Monday of the ISO week containing `date`. */
+function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return shiftDate(date, -((day + 6) % 7));
+}
+
+/**
+ * Lists every whole bucket between the earliest stored date and the daily retention limit.
+ */
+export function planBuckets(earliest: string, policy: { dailyDays: number; weeklyDays: number }) {
+  const dailyLimit = daysAgo(policy.dailyDays);
+  const monthlyEnd = monthStart(daysAgo(policy.weeklyDays));
+  const buckets: Bucket[] = [];
+
+  for (let month = monthStart(earliest); month < monthlyEnd; month = nextMonth(month)) {
+    buckets.push({ granularity: 'monthly', start: month, end: nextMonth(month) });
+  }
+
+  const firstWeekly = earliest > monthlyEnd ? earliest : monthlyEnd;
+  for (
+    let week = weekStart(firstWeekly);
+    shiftDate(week, 7) <= dailyLimit;
+    week = shiftDate(week, 7)
+  ) {
+    buckets.push({
+      granularity: 'weekly',
+      start: week < monthlyEnd ? monthlyEnd : week,
+      end: shiftDate(week, 7),
+    });
+  }
+  return buckets;
+}
+
+/**
+ * Keeps the latest point of every series in the bucket and deletes the rest (or only counts
+ * them on a dry run).
+ */
+async function compactBucket(bucket: Bucket, dryRun: boolean): Promise<BucketResult> {
+  const result: BucketResult = { ...bucket, series: 0, pointsRemoved: 0, bytesRemoved: 0 };
+  const cursor = PricePoint.aggregate([
+    { $match: { date: { $gte: bucket.start, $lt: bucket.end } } },
+    {
+      $group: {
+        _id: { uuid: '$uuid', vendor: '$vendor', priceType: '$priceType', finish: '$finish' },
+        keep: { $max: '$date' },
+        count: { $sum: 1 },
+        bytes: { $sum: { $bsonSize: '$$ROOT' } },
+      },
+    },
+    { $match: { count: { $gt: 1 } } },
+  ])
+    .allowDiskUse(true)
+    .cursor();
+
+  const ops: any[] = [];
+  const flush = async () => {
+    if (ops.length) await PricePoint.bulkWrite(ops, { ordered: false });
+    ops.length = 0;
+  };
+
+  for await (const group of cursor) {
+    result.series++;
+    result.pointsRemoved += group.count - 1;
+    result.bytesRemoved += Math.round((group.bytes * (group.count - 1)) / group.count);
+    if (dryRun) continue;
+
+    ops.push({
+      deleteMany: {
+        filter: { ...group._id, date: { $gte: bucket.start, $lt: bucket.end, $ne: group.keep } },
+      },
+    });
+    if (ops.length >= DELETE_BATCH) await flush();
+  }
+  await flush();
+
+  if (!dryRun) {
+    await PriceCompaction.updateOne(
+      { granularity: bucket.granularity, start: bucket.start },
+      {
+        $set: {
+          end: bucket.end,
+          series: result.series,
+          pointsRemoved: result.pointsRemoved,
+          bytesRemoved: result.bytesRemoved,
+          compactedAt: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+  }
+  return result;
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const policy = retentionPolicy();
+  logInfo(
+    '[compactPrices.ts]',
+    `${dryRun ? 'Dry run: ' : ''}keeping daily points for ${policy.dailyDays} days, weekly until ` +
+      `${policy.weeklyDays} days, monthly before that`
+  );
+
+  const earliest = await PricePoint.findOne().sort({ date: 1 }).select('date').lean();
+  const done = await PriceCompaction.find().select('granularity start').lean();
+  const compacted = new Set(done.map((c) => `${c.granularity}:${c.start}`));
+  const buckets = earliest
+    ? planBuckets(earliest.date, policy).filter(
+        (b) => !compacted.has(`${b.granularity}:${b.start}`)
+      )
+    : [];
+
+  const results: BucketResult[] = [];
+  for (const bucket of buckets) results.push(await compactBucket(bucket, dryRun));
+
+  const totals = {
+    ranges: results.length,
+    series: results.reduce((sum, r) => sum + r.series, 0),
+    pointsRemoved: results.reduce((sum, r) => sum + r.pointsRemoved, 0),
+    bytesRemoved: results.reduce((sum, r) => sum + r.bytesRemoved, 0),
+  };
+  await fs.promises.writeFile(
+    tempPath('compactionReport.json'),
+    JSON.stringify(
+      { dryRun, policy, totals, ranges: results.filter((r) => r.pointsRemoved > 0) },
+      null,
+      2
+    )
+  );
+
+  logInfo(
+    '[compactPrices.ts]',
+    `${dryRun ? 'Would remove' : 'Removed'} ${totals.pointsRemoved} price points ` +
+      `(~${(totals.bytesRemoved / 1024 / 1024).toFixed(1)} MB) from ${totals.series} series ` +
+      `across ${totals.ranges} new ranges`
+  );
+  return totals;
+}
+
+export const compactPricesStep: PipelineStep = {
+  name: 'compactPrices',
+  description: 'Compact old price history',
+  inputs: [],
+  outputs: ['compactionReport.json'],
+  db: 'required',
+  optional: true,
+  run: () => main(),
+};
+
+if (require.main === module) runStandalone(compactPricesStep);
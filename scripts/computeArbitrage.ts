@@ -0,0 +1,117 @@
+/**
+ * Goblin Bookie – Compute Cross-Vendor Arbitrage
+ *
+ * PURPOSE:
+ *   Finds every card/finish where one vendor's latest buylist price is higher than another
+ *   vendor's latest retail price and stores the spreads in the ArbitrageOpportunity collection,
+ *   which backs GET /api/arbitrage.
+ *
+ * CONTEXT:
+ *   - Runs in the daily pipeline after uploadToMongo.ts, reading the freshly written
+ *     `Card.summary.vendors` latest prices and their `summary.vendorDates` (no price history is
+ *     loaded).
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Streams cards that have a summary with a Mongoose cursor; inserts in batches of 1000.
+ *   - Only pairs of different vendors are compared (buy retail at A, sell buylist to B), and only
+ *     vendors the registry (src/utils/vendors.ts) lists with that price type.
+ *   - Summary prices are already converted to USD, so EUR and USD vendors compare like for like
+ *     and every stored price/spread is in USD.
+ *   - Each vendor price is checked against its own date: one older than STALE_DAYS (or without a
+ *     date, from a summary written before dates were stored) is skipped, even when another vendor
+ *     priced the card today. A row's `date` is the older of the two prices compared.
+ *   - Rows are built in a staging collection and swapped in once complete (see
+ *     src/utils/rebuildCollection.ts): the endpoint serves the previous run's list until then,
+ *     and a failed run leaves it in place.
+ */
+
+import Card from '../src/models/Card';
+import ArbitrageOpportunity from '../src/models/ArbitrageOpportunity';
+import { logInfo } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone } from '../src/utils/pipeline';
+import { shiftDate } from '../src/utils/priceHelpers';
+import { rebuildCollection } from '../src/utils/rebuildCollection';
+import { FINISHES, vendorsWithPriceType } from '../src/utils/vendors';
+
+const BUY_VENDORS = vendorsWithPriceType('retail').map((vendor) => vendor.id);
+const SELL_VENDORS = vendorsWithPriceType('buylist').map((vendor) => vendor.id);
+const STALE_DAYS = 3;
+const batchSize = 1000;
+
+async function main() {
+  logInfo('[computeArbitrage.ts]', 'Computing cross-vendor arbitrage...');
+
+  const computedAt = new Date();
+  const staleBefore = shiftDate(computedAt.toISOString().slice(0, 10), -STALE_DAYS);
+  let cards = 0;
+
+  const written = await rebuildCollection(ArbitrageOpportunity, async (write) => {
+    const buffer: any[] = [];
+    const cursor = Card.find({ 'summary.date': { $gte: staleBefore } })
+      .select('uuid name setCode imageUrl summary')
+      .lean()
+      .cursor();
+
+    for await (const card of cursor) {
+      cards++;
+      const vendors: any = card.summary?.vendors || {};
+      const dates: any = card.summary?.vendorDates || {};
+
+      for (const finish of FINISHES) {
+        for (const buyVendor of BUY_VENDORS) {
+          const buyPrice = vendors[buyVendor]?.retail?.[finish];
+          const buyDate = dates[buyVendor]?.retail?.[finish];
+          if (typeof buyPrice !== 'number' || buyPrice <= 0) continue;
+          if (!buyDate || buyDate < staleBefore) continue;
+
+          for (const sellVendor of SELL_VENDORS) {
+            if (sellVendor === buyVendor) continue;
+            const sellPrice = vendors[sellVendor]?.buylist?.[finish];
+            const sellDate = dates[sellVendor]?.buylist?.[finish];
+            if (typeof sellPrice !== 'number' || sellPrice <= buyPrice) continue;
+            if (!sellDate || sellDate < staleBefore) continue;
+
+            const spread = sellPrice - buyPrice;
+            buffer.push({
+              uuid: card.uuid,
+              name: card.name,
+              setCode: card.setCode,
+              imageUrl: card.imageUrl,
+              finish,
+              buyVendor,
+              buyPrice,
+              sellVendor,
+              sellPrice,
+              spread: Number(spread.toFixed(2)),
+              spreadPct: Number(((spread / buyPrice) * 100).toFixed(2)),
+              date: buyDate < sellDate ? buyDate : sellDate,
+              computedAt,
+            });
+          }
+        }
+      }
+
+      if (buffer.length >= batchSize) {
+        await write(buffer);
+        buffer.length = 0;
+      }
+    }
+    await write(buffer);
+  });
+
+  logInfo(
+    '[computeArbitrage.ts]',
+    `Arbitrage complete: ${cards} cards scanned, ${written} opportunities`
+  );
+}
+
+export const computeArbitrageStep: PipelineStep = {
+  name: 'computeArbitrage',
+  description: 'Compute arbitrage spreads',
+  inputs: [],
+  outputs: [],
+  db: 'required',
+  run: () => main(),
+};
+
+if (require.main === module) runStandalone(computeArbitrageStep);
@@ -0,0 +1,177 @@
+/**
+ * Goblin Bookie – Compute Market Movers
+ *
+ * PURPOSE:
+ *   Precomputes 1-day, 7-day and 30-day price changes for every card/price type/finish and
+ *   stores them in the MarketMover collection, which backs GET /api/movers.
+ *
+ * CONTEXT:
+ *   - Runs in the daily pipeline after uploadToMongo.ts, so changes include today's prices.
+ *   - Keeps the movers endpoint fast: no request ever scans card price histories.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Streams the last ~month of PricePoint documents one card at a time (memory-safe), joins card
+ *     info for 500 cards per query and writes rows per batch.
+ *   - % change is computed per vendor (its latest point vs. its latest point on or before
+ *     latest date - window days, in its own currency) and then averaged across vendors, the same
+ *     way Card.summary change7d/change30d is. Only vendors with a price on both dates count, so a
+ *     vendor appearing or dropping out can't fake a move.
+ *   - price / previousPrice are the averages of those same vendors' two prices, each converted to
+ *     USD with its own date's FX rate (vendors without a rate are left out).
+ *   - Vendor prices older than STALE_DAYS are skipped, so delisted cards don't linger in the
+ *     rankings.
+ *   - Rows are built in a staging collection and swapped in once complete (see
+ *     src/utils/rebuildCollection.ts): the endpoint serves the previous run's rankings until then,
+ *     and a failed run leaves them in place.
+ */
+
+import Card from '../src/models/Card';
+import MarketMover from '../src/models/MarketMover';
+import { logInfo } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone } from '../src/utils/pipeline';
+import { streamPriceTrees } from '../src/utils/priceHistory';
+import { rebuildCollection, RowWriter } from '../src/utils/rebuildCollection';
+import { BASE_CURRENCY, getFxConverter, vendorPriceConverter } from '../src/utils/currency';
+import { FINISHES, PRICE_TYPES, VENDOR_IDS } from '../src/utils/vendors';
+import {
+  getPointOnOrBefore,
+  getPriceSeries,
+  percentChange,
+  PriceConverter,
+  PriceKind,
+  shiftDate,
+} from '../src/utils/priceHelpers';
+
+const WINDOWS: { window: string; days: number }[] = [
+  { window: '1d', days: 1 },
+  { window: '7d', days: 7 },
+  { window: '30d', days: 30 },
+];
+const MAX_WINDOW_DAYS = 30;
+const STALE_DAYS = 3;
+const batchSize = 500;
+
+/** Average of a non-empty list. */
+const average = (vals: number[]) => vals.reduce((a, b) => a + b, 0) / vals.length;
+
+/**
+ * One window's move for a card/type/finish: the average per-vendor % change over `days`, with
+ * the averaged (USD) latest and baseline prices of the vendors that have both. Null when no
+ * fresh vendor has a baseline.
+ */
+function windowChange(
+  prices: any,
+  priceType: PriceKind,
+  finish: string,
+  days: number,
+  staleBefore: string,
+  convert: PriceConverter
+) {
+  const changes: number[] = [];
+  const latestPrices: number[] = [];
+  const baselinePrices: number[] = [];
+  let date = '';
+
+  for (const vendor of VENDOR_IDS) {
+    const series = getPriceSeries(prices, priceType, finish, vendor);
+    if (!series.length) continue;
+    const latest = series[series.length - 1];
+    if (latest.date < staleBefore) continue;
+
+    const baseline = getPointOnOrBefore(series, shiftDate(latest.date, -days));
+    const change = percentChange(latest.price, baseline ? baseline.price : null);
+    if (!baseline || change === null) continue;
+    const latestPrice = convert(latest.price, vendor, latest.date);
+    const baselinePrice = convert(baseline.price, vendor, baseline.date);
+    if (latestPrice === null || baselinePrice === null) continue;
+
+    changes.push(change);
+    latestPrices.push(latestPrice);
+    baselinePrices.push(baselinePrice);
+    if (latest.date > date) date = latest.date;
+  }
+
+  if (!changes.length) return null;
+  return {
+    price: average(latestPrices),
+    previousPrice: average(baselinePrices),
+    changePct: average(changes),
+    date,
+  };
+}
+
+async function main() {
+  logInfo('[computeMovers.ts]', 'Computing market movers...');
+
+  const fx = await getFxConverter();
+  const computedAt = new Date();
+  const staleBefore = shiftDate(computedAt.toISOString().slice(0, 10), -STALE_DAYS);
+  let cards = 0;
+
+  // Computes mover rows for a batch of price trees, joining card info with one query
+  const processBatch = async (batch: { uuid: string; prices: any }[], write: RowWriter) => {
+    const cardDocs = await Card.find({ uuid: { $in: batch.map((p) => p.uuid) } })
+      .select('uuid name setCode imageUrl')
+      .lean();
+    const cardsByUuid = new Map(cardDocs.map((c) => [c.uuid, c]));
+    const rows: any[] = [];
+
+    for (const { uuid, prices } of batch) {
+      const card = cardsByUuid.get(uuid);
+      if (!card) continue;
+      cards++;
+      const convert = vendorPriceConverter(fx, prices, BASE_CURRENCY);
+
+      for (const priceType of PRICE_TYPES) {
+        for (const finish of FINISHES) {
+          for (const { window, days } of WINDOWS) {
+            const move = windowChange(prices, priceType, finish, days, staleBefore, convert);
+            if (!move) continue;
+
+            rows.push({
+              uuid: card.uuid,
+              name: card.name,
+              setCode: card.setCode,
+              imageUrl: card.imageUrl,
+              window,
+              priceType,
+              finish,
+              price: Number(move.price.toFixed(2)),
+              previousPrice: Number(move.previousPrice.toFixed(2)),
+              changePct: Number(move.changePct.toFixed(2)),
+              date: move.date,
+              computedAt,
+            });
+          }
+        }
+      }
+    }
+    await write(rows);
+  };
+
+  const written = await rebuildCollection(MarketMover, async (write) => {
+    let batch: { uuid: string; prices: any }[] = [];
+    // Only the longest window (+ a few days' slack) of history is needed
+    for await (const tree of streamPriceTrees(shiftDate(staleBefore, -MAX_WINDOW_DAYS))) {
+      batch.push(tree);
+      if (batch.length >= batchSize) {
+        await processBatch(batch, write);
+        batch = [];
+      }
+    }
+    await processBatch(batch, write);
+  });
+
+  logInfo('[computeMovers.ts]', `Movers complete: ${cards} cards scanned, ${written} rows written`);
+}
+
+export const computeMoversStep: PipelineStep = {
+  name: 'computeMovers',
+  description: 'Compute price movers',
+  inputs: [],
+  outputs: [],
+  db: 'required',
+  run: () => main(),
+};
+
+if (require.main === module) runStandalone(computeMoversStep);
@@ -0,0 +1,149 @@
+/**
+ * Goblin Bookie – Detect Price History Gaps
+ *
+ * PURPOSE:
+ *   Finds dates and cards missing from the stored price history, logs a report, and records them
+ *   in the PriceGap collection so the next run of parsePrices.ts pulls them from AllPrices.json.
+ *
+ * CONTEXT:
+ *   - Runs in the daily pipeline right after uploadToMongo.ts, so gaps filled by this run are
+ *     already closed when it checks.
+ *   - Only the last GAP_WINDOW_DAYS are checked: older dates are no longer in AllPrices.json.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Date gaps: every date between the window start and the latest stored date whose point count
+ *     is below DATE_COVERAGE_RATIO of the median daily count (0 points = a missed run).
+ *   - Card gaps: cards whose latest summary date is inside the window but behind the latest stored
+ *     date (the card was priced recently but missed one or more days).
+ *   - Gaps no longer detected are deleted; gaps still open get `attempts` incremented. Gaps at
+ *     MAX_FILL_ATTEMPTS stay in the report but parsePrices.ts stops asking for them.
+ *   - Card gaps only count an attempt after a run that parsed the full AllPrices.json (see
+ *     temp/downloadManifest.json): daily AllPricesToday.json runs can't fill them, so they wait
+ *     for the next full download instead of being given up unattempted.
+ *
+ * USAGE:
+ *   npx ts-node scripts/detectPriceGaps.ts
+ */
+
+import fs from 'fs';
+import Card from '../src/models/Card';
+import PricePoint from '../src/models/PricePoint';
+import PriceGap, { MAX_FILL_ATTEMPTS } from '../src/models/PriceGap';
+import { logInfo } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone, tempPath } from '../src/utils/pipeline';
+import { shiftDate } from '../src/utils/priceHelpers';
+import { daysAgo } from '../src/utils/priceHistory';
+
+const GAP_WINDOW_DAYS = 85;
+const DATE_COVERAGE_RATIO = 0.5;
+const REPORT_SAMPLE = 20;
+
+/** Median of a non-empty list of numbers. */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Returns the dates in the window whose point count is missing or far below normal.
+ */
+async function findDateGaps(since: string): Promise<{ dates: string[]; latest: string | null }> {
+  const counts = await PricePoint.aggregate([
+    { $match: { date: { $gte: since } } },
+    { $group: { _id: '$date', points: { $sum: 1 } } },
+  ]);
+  if (!counts.length) return { dates: [], latest: null };
+
+  const byDate = new Map<string, number>(counts.map((c) => [c._id, c.points]));
+  const latest = Array.from(byDate.keys()).sort().pop()!;
+  const threshold = median(Array.from(byDate.values())) * DATE_COVERAGE_RATIO;
+
+  const dates: string[] = [];
+  for (let date = since; date <= latest; date = shiftDate(date, 1)) {
+    if ((byDate.get(date) || 0) < threshold) dates.push(date);
+  }
+  return { dates, latest };
+}
+
+/**
+ * True when this run parsed the full AllPrices.json (or ran standalone, without a manifest), so
+ * card gaps had a chance to be filled.
+ */
+function parsedFullPrices(): boolean {
+  const manifestPath = tempPath('downloadManifest.json');
+  if (!fs.existsSync(manifestPath)) return true;
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')).pricesFile !== 'AllPricesToday.json';
+}
+
+async function main() {
+  logInfo('[detectPriceGaps.ts]', 'Checking stored price history for gaps...');
+
+  const since = daysAgo(GAP_WINDOW_DAYS);
+  const { dates, latest } = await findDateGaps(since);
+  if (!latest) {
+    logInfo('[detectPriceGaps.ts]', `No price points since ${since}, nothing to check`);
+    return;
+  }
+
+  const staleCards = await Card.find({ 'summary.date': { $gte: since, $lt: latest } })
+    .select('-_id uuid summary.date')
+    .lean();
+
+  const found = [
+    ...dates.map((date) => ({ kind: 'date', date, uuid: null })),
+    ...staleCards.map((card: any) => ({
+      kind: 'card',
+      date: null,
+      uuid: card.uuid,
+      since: card.summary.date,
+    })),
+  ];
+
+  // Record every open gap (new ones start at 1 attempt: the next run will try to fill them).
+  // Card gaps only count attempts made with the full price file.
+  const runAt = new Date();
+  const fullPrices = parsedFullPrices();
+  const ops = found.map((gap) => ({
+    updateOne: {
+      filter: { kind: gap.kind, date: gap.date, uuid: gap.uuid },
+      update: {
+        $set: { ...gap, checkedAt: runAt },
+        $inc: { attempts: gap.kind === 'card' && !fullPrices ? 0 : 1 },
+        $setOnInsert: { detectedAt: runAt },
+      },
+      upsert: true,
+    },
+  }));
+  for (let i = 0; i < ops.length; i += 1000) {
+    await PriceGap.bulkWrite(ops.slice(i, i + 1000), { ordered: false });
+  }
+  const { deletedCount } = await PriceGap.deleteMany({ checkedAt: { $ne: runAt } });
+  const exhausted = await PriceGap.countDocuments({ attempts: { $gt: MAX_FILL_ATTEMPTS } });
+
+  logInfo(
+    '[detectPriceGaps.ts]',
+    `Gap check through ${latest}: ${dates.length} missing/thin dates, ${staleCards.length} cards ` +
+      `behind, ${deletedCount} gaps closed, ${exhausted} gaps given up after ${MAX_FILL_ATTEMPTS} attempts`
+  );
+  if (dates.length) {
+    logInfo('[detectPriceGaps.ts]', `Missing dates: ${dates.join(', ')}`);
+  }
+  if (staleCards.length) {
+    const sample = staleCards
+      .slice(0, REPORT_SAMPLE)
+      .map((c: any) => `${c.uuid} (${c.summary.date})`);
+    logInfo('[detectPriceGaps.ts]', `Cards behind (first ${sample.length}): ${sample.join(', ')}`);
+  }
+}
+
+export const detectPriceGapsStep: PipelineStep = {
+  name: 'detectPriceGaps',
+  description: 'Detect price history gaps',
+  inputs: [],
+  outputs: [],
+  db: 'required',
+  run: () => main(),
+};
+
+if (require.main === module) runStandalone(detectPriceGapsStep);
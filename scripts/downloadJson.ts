@@ -2,83 +2,269 @@
  * Goblin Bookie – Daily JSON Downloader
  *
  * PURPOSE:
- *   Downloads the two critical MTGJSON data files needed for the sync pipeline:
+ *   Downloads the MTGJSON data files needed for the sync pipeline:
  *     - AllIdentifiers.json: Contains all card metadata for parsing and filtering
- *     - AllPrices.json: Contains all historical/current price data for all cards
+ *     - AllPricesToday.json: Today's prices only (small) – used for normal daily runs
+ *     - AllPrices.json: ~90 days of price history – only when backfilling or repairing gaps
+ *     - SetList.json: Set names, release dates and types (small)
  *
  * CONTEXT:
  *   - This script is the first stage in the daily pipeline. All downstream scripts depend on its output.
  *   - Files are streamed directly to disk (in /temp) to avoid loading large JSON blobs in memory.
+ *   - Writes temp/downloadManifest.json telling parsePrices.ts which price file to read and which
+ *     files changed since the last run.
  *
  * IMPLEMENTATION DETAILS:
- *   - Uses Node's https/fs modules only (no extra dependencies for downloading).
- *   - Cleans up incomplete files on download failure for safety.
+ *   - Uses Node's http/https/fs modules only (no extra dependencies for downloading).
+ *   - MTGJSON publishes a `<file>.sha256` sidecar for every file. The sidecar is fetched first; if
+ *     it matches the checksum stored next to our local copy (`<file>.sha256`, kept by cleanUp.ts),
+ *     the download is skipped. Downloads are verified against the sidecar before use.
+ *   - Downloads go to `<file>.part` and resume with an HTTP Range request after a failure,
+ *     retrying up to MAX_ATTEMPTS times with exponential backoff. A finished file only replaces
+ *     the previous copy once it is complete and verified.
+ *   - A `.part` is only resumed when it was started for the same published checksum (recorded in
+ *     `<file>.part.sha256`), so a partial file from an older day is never extended with today's
+ *     bytes, and files without a sidecar always download from scratch. A 416 reply to the Range
+ *     request means the `.part` is already complete; it is then verified like any download.
+ *   - A connection that stays silent for DOWNLOAD_TIMEOUT_MS is dropped and counts as a failed
+ *     attempt, so a stalled server can't hang the daily sync.
+ *   - The full AllPrices.json is fetched when the run is a backfill (`--backfill`, `--since=`,
+ *     `--until=`) or when detectPriceGaps.ts has open date gaps to repair; otherwise
+ *     AllPricesToday.json. Card gaps (single cards behind) are routine, so they don't trigger the
+ *     full download on their own: they are repaired by the next run that fetches it anyway.
+ *   - MTGJSON_BASE_URL overrides the source (default https://mtgjson.com/api/v5). A value that
+ *     isn't an http(s) URL is read as a local mirror directory (e.g. for offline tests).
  *   - Ensures the /temp directory exists before attempting to write.
  *
  *   Written for <2GB RAM deployment (e.g. Render), fully streaming, and follows best practices for assignment submission.
  */
 
+import http from 'http';
 import https from 'https';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import PriceGap, { MAX_FILL_ATTEMPTS } from '../src/models/PriceGap';
 import { logInfo, logError, ensureDirExists } from '../src/utils/jsonHelpers';
+import {
+  isDbConnected,
+  PipelineOptions,
+  PipelineStep,
+  runStandalone,
+  TEMP_DIR,
+} from '../src/utils/pipeline';
 
-// Resolve the temp directory path relative to this script
-const destinationDir = path.join(__dirname, '../temp');
+const BASE_URL = (process.env.MTGJSON_BASE_URL || 'https://mtgjson.com/api/v5').replace(/\/+$/, '');
+const IS_REMOTE = /^https?:\/\//.test(BASE_URL);
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 2000;
+const MAX_REDIRECTS = 5;
+const DOWNLOAD_TIMEOUT_MS = 60_000;
 
-// Ensure /temp exists before starting any downloads (avoids fs errors)
-ensureDirExists(destinationDir);
+const destinationDir = TEMP_DIR;
+const manifestPath = path.join(destinationDir, 'downloadManifest.json');
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 /**
- * Downloads a file from the given URL and writes it directly to disk.
- * Handles partial downloads: deletes any incomplete file if an error occurs.
- *
- * @param url {string} – The URL to download from
- * @param filename {string} – The filename to save in /temp
- * @returns Promise<void>
+ * Opens a GET request (following redirects) and resolves with the response.
+ * `start` > 0 asks the server to resume from that byte offset; a 416 (nothing left after it) is
+ * then resolved too. The request fails once the connection is idle for DOWNLOAD_TIMEOUT_MS.
  */
-async function downloadFile(url: string, filename: string) {
-  return new Promise<void>((resolve, reject) => {
-    const filePath = path.join(destinationDir, filename);
-    const file = fs.createWriteStream(filePath);
-
-    https
-      .get(url, (response) => {
-        // If response code isn't 200 OK, treat as a failure (don't log here—handled in main catch)
-        if (response.statusCode !== 200) {
-          return reject(new Error(`Failed: ${response.statusCode}`));
+function request(url: string, start = 0, redirects = 0): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const headers = start > 0 ? { Range: `bytes=${start}-` } : undefined;
+    const req = client
+      .get(url, { headers, timeout: DOWNLOAD_TIMEOUT_MS }, (response) => {
+        const status = response.statusCode || 0;
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume();
+          if (redirects >= MAX_REDIRECTS) return reject(new Error(`Too many redirects: ${url}`));
+          const next = new URL(response.headers.location, url).toString();
+          return resolve(request(next, start, redirects + 1));
         }
-
-        // Stream the response into the file (memory-safe)
-        response.pipe(file);
-
-        // Once writing is done, log success
-        file.on('finish', () =>
-          file.close(() => {
-            logInfo('[downloadJson.ts]', `Downloaded ${filename}`);
-            resolve();
-          })
-        );
+        if (status !== 200 && status !== 206 && !(status === 416 && start > 0)) {
+          response.resume();
+          return reject(new Error(`Failed: ${status} for ${url}`));
+        }
+        resolve(response);
       })
-      .on('error', (err) => {
-        // On any error, clean up the partial file and log the error
-        fs.unlink(filePath, () => {});
-        logError('[downloadJson.ts]', `Failed downloading ${filename}: ${err.message}`);
-        reject(err);
-      });
+      .on('error', reject);
+    req.on('timeout', () =>
+      req.destroy(new Error(`No data for ${DOWNLOAD_TIMEOUT_MS} ms: ${url}`))
+    );
   });
 }
 
-// MAIN: Download both files in sequence, with log output at each stage
-(async () => {
+/**
+ * Fetches the published SHA-256 for a file (first token of `<file>.sha256`), or null when the
+ * source has no sidecar.
+ */
+async function fetchRemoteChecksum(filename: string): Promise<string | null> {
   try {
-    logInfo('[downloadJson.ts]', 'Starting daily download...');
+    let text: string;
+    if (IS_REMOTE) {
+      const response = await request(`${BASE_URL}/${filename}.sha256`);
+      const chunks: Buffer[] = [];
+      for await (const chunk of response) chunks.push(chunk as Buffer);
+      text = Buffer.concat(chunks).toString('utf-8');
+    } else {
+      text = await fs.promises.readFile(path.join(BASE_URL, `${filename}.sha256`), 'utf-8');
+    }
+    const checksum = text.trim().split(/\s+/)[0]?.toLowerCase();
+    return checksum && /^[0-9a-f]{64}$/.test(checksum) ? checksum : null;
+  } catch {
+    return null;
+  }
+}
 
-    await downloadFile('https://mtgjson.com/api/v5/AllIdentifiers.json', 'AllIdentifiers.json');
-    await downloadFile('https://mtgjson.com/api/v5/AllPrices.json', 'AllPrices.json');
+/** Computes a file's SHA-256 by streaming it (memory-safe for multi-GB files). */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk as Buffer);
+  return hash.digest('hex');
+}
 
-    logInfo('[downloadJson.ts]', 'Finished downloading daily MTGJSON files.');
-  } catch (err) {
-    logError('[downloadJson.ts]', `Download process failed: ${err}`);
+/**
+ * Streams `filename` from the source into `partPath`. Resumes what is already there only when the
+ * `.part` was started for the same `checksum`; otherwise starts over.
+ */
+async function fetchInto(filename: string, partPath: string, checksum: string | null) {
+  if (!IS_REMOTE) {
+    await fs.promises.copyFile(path.join(BASE_URL, filename), partPath);
+    return;
+  }
+
+  const partChecksumPath = `${partPath}.sha256`;
+  const partChecksum = fs.existsSync(partChecksumPath)
+    ? (await fs.promises.readFile(partChecksumPath, 'utf-8')).trim()
+    : null;
+  const canResume = !!checksum && partChecksum === checksum && fs.existsSync(partPath);
+  if (!canResume) {
+    await fs.promises.rm(partPath, { force: true });
+    if (checksum) await fs.promises.writeFile(partChecksumPath, checksum);
+    else await fs.promises.rm(partChecksumPath, { force: true });
+  }
+
+  const start = canResume ? fs.statSync(partPath).size : 0;
+  const response = await request(`${BASE_URL}/${filename}`, start);
+  if (response.statusCode === 416) {
+    // Nothing after `start`: the .part is already complete (the checksum check decides)
+    response.resume();
+    logInfo('[downloadJson.ts]', `${filename}.part is already complete, verifying it`);
+    return;
   }
-})();
+  // 206 = resumed; 200 = server ignored the Range header, so start over
+  const resumed = start > 0 && response.statusCode === 206;
+  if (resumed) logInfo('[downloadJson.ts]', `Resuming ${filename} from byte ${start}`);
+
+  const file = fs.createWriteStream(partPath, { flags: resumed ? 'a' : 'w' });
+  await new Promise<void>((resolve, reject) => {
+    response.on('error', reject);
+    file.on('error', reject);
+    file.on('finish', resolve);
+    response.pipe(file);
+  });
+}
+
+/**
+ * Downloads one file into /temp unless the local copy already matches the published checksum.
+ * Returns whether the file changed.
+ */
+async function downloadFile(filename: string): Promise<boolean> {
+  const filePath = path.join(destinationDir, filename);
+  const partPath = `${filePath}.part`;
+  const checksumPath = `${filePath}.sha256`;
+
+  const remoteChecksum = await fetchRemoteChecksum(filename);
+  if (remoteChecksum && fs.existsSync(filePath) && fs.existsSync(checksumPath)) {
+    const localChecksum = (await fs.promises.readFile(checksumPath, 'utf-8')).trim();
+    if (localChecksum === remoteChecksum) {
+      logInfo(
+        '[downloadJson.ts]',
+        `${filename} unchanged (sha256 ${remoteChecksum.slice(0, 12)}), skipping`
+      );
+      return false;
+    }
+  }
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      await fetchInto(filename, partPath, remoteChecksum);
+
+      if (remoteChecksum) {
+        const actual = await hashFile(partPath);
+        if (actual !== remoteChecksum) {
+          // Corrupt (or stale partial) data can't be resumed: start the next attempt from scratch
+          await fs.promises.unlink(partPath);
+          throw new Error(`Checksum mismatch for ${filename}`);
+        }
+      }
+
+      await fs.promises.rename(partPath, filePath);
+      await fs.promises.rm(`${partPath}.sha256`, { force: true });
+      if (remoteChecksum) await fs.promises.writeFile(checksumPath, remoteChecksum);
+      else await fs.promises.rm(checksumPath, { force: true });
+      logInfo('[downloadJson.ts]', `Downloaded ${filename}`);
+      return true;
+    } catch (err: any) {
+      logError(
+        '[downloadJson.ts]',
+        `Attempt ${attempt}/${MAX_ATTEMPTS} for ${filename} failed: ${err.message}`
+      );
+      if (attempt === MAX_ATTEMPTS) throw err;
+      await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+  return false;
+}
+
+/**
+ * True when this run needs ~90 days of prices: a backfill, or open date gaps left by
+ * detectPriceGaps.ts (checked only when MongoDB is connected).
+ */
+async function needsFullPrices(options: PipelineOptions): Promise<boolean> {
+  if (options.backfill) return true;
+  if (!isDbConnected()) return false;
+
+  const open = { attempts: { $lte: MAX_FILL_ATTEMPTS } };
+  if (await PriceGap.exists({ ...open, kind: 'date' })) return true;
+
+  const cardGaps = await PriceGap.countDocuments({ ...open, kind: 'card' });
+  if (cardGaps) {
+    logInfo(
+      '[downloadJson.ts]',
+      `${cardGaps} card gaps open; they are repaired on the next AllPrices.json download ` +
+        '(date gap or backfill)'
+    );
+  }
+  return false;
+}
+
+export const downloadJsonStep: PipelineStep = {
+  name: 'downloadJson',
+  description: 'Download changed MTGJSON files',
+  inputs: [],
+  outputs: ['AllIdentifiers.json', 'SetList.json', 'downloadManifest.json'],
+  db: 'optional',
+  async run(options) {
+    // Ensure /temp exists before starting any downloads (avoids fs errors)
+    ensureDirExists(destinationDir);
+    logInfo('[downloadJson.ts]', `Starting daily download from ${BASE_URL}...`);
+
+    const pricesFile = (await needsFullPrices(options)) ? 'AllPrices.json' : 'AllPricesToday.json';
+    const changed: Record<string, boolean> = {};
+    for (const filename of ['AllIdentifiers.json', pricesFile, 'SetList.json']) {
+      changed[filename] = await downloadFile(filename);
+    }
+
+    await fs.promises.writeFile(manifestPath, JSON.stringify({ pricesFile, changed }, null, 2));
+    logInfo(
+      '[downloadJson.ts]',
+      `Finished downloading daily MTGJSON files (prices: ${pricesFile}).`
+    );
+  },
+};
+
+if (require.main === module) runStandalone(downloadJsonStep);
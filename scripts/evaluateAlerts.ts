@@ -0,0 +1,238 @@
+/**
+ * Goblin Bookie – Watchlist Alert Evaluation
+ *
+ * PURPOSE:
+ *   Checks every watchlist rule against the freshly uploaded prices and emails one digest per
+ *   recipient listing every rule that triggered today.
+ *
+ * CONTEXT:
+ *   - Runs in the daily pipeline right after uploadToMongo.ts, so it always sees today's prices.
+ *   - Rules are managed via the /api/watchlists routes (see src/models/Watchlist.ts).
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - A rule "triggers" once per crossing: its condition holds on the latest price date, and the
+ *     date it started holding (the crossing) is newer than the `lastTriggeredDate` it last fired
+ *     for. A card sitting under its threshold therefore alerts once, and re-running the step
+ *     doesn't resend alerts. A condition that held on every loaded date crossed too long ago to
+ *     tell and doesn't trigger.
+ *   - Threshold rules ('below'/'above') compare the price directly; change rules
+ *     ('changeUp'/'changeDown') compare the % change against the price `windowDays` earlier.
+ *   - Prices are converted into the rule's currency with each date's FX rate; rules without a
+ *     vendor then use the cross-vendor average for each date.
+ *   - A watchlist's own email only receives alerts once an admin confirmed it (`emailConfirmed`);
+ *     unconfirmed ones are logged and skipped. Watchlists without an email go to EMAIL_TO.
+ *   - Emails are grouped by recipient. A rule gets `lastTriggeredAt` / `lastTriggeredDate` stamped
+ *     only after its digest was sent, so after a failed send the crossing is still newer than the
+ *     stamp and the next run sends it (as long as the condition still holds).
+ *   - A failing recipient is logged and the others still get their digests.
+ *   - If email isn't configured, triggered alerts are only logged (and not stamped).
+ */
+
+import Card from '../src/models/Card';
+import Watchlist from '../src/models/Watchlist';
+import { logInfo, logError } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone } from '../src/utils/pipeline';
+import { isMailConfigured, sendMail } from '../src/utils/mailer';
+import {
+  getPointOnOrBefore,
+  getPriceSeries,
+  percentChange,
+  shiftDate,
+  SeriesPoint,
+} from '../src/utils/priceHelpers';
+import { daysAgo, LATEST_LOOKBACK_DAYS, loadPriceTrees } from '../src/utils/priceHistory';
+import { getFxConverter, vendorPriceConverter } from '../src/utils/currency';
+
+type TriggeredAlert = {
+  watchlistId: any;
+  itemId: any;
+  recipient: string;
+  watchlistName: string;
+  line: string;
+  /** Date of the price point that triggered the rule */
+  date: string;
+};
+
+/**
+ * Returns the value a rule compares against its threshold at series index `i`:
+ * the price itself for threshold rules, or the % change over the window for change rules.
+ */
+function ruleValueAt(series: SeriesPoint[], i: number, item: any): number | null {
+  const point = series[i];
+  if (item.condition === 'below' || item.condition === 'above') return point.price;
+
+  const baseline = getPointOnOrBefore(series, shiftDate(point.date, -item.windowDays));
+  return percentChange(point.price, baseline ? baseline.price : null);
+}
+
+/** True when the rule's condition holds at series index `i`. */
+function conditionMet(series: SeriesPoint[], i: number, item: any): boolean {
+  const value = ruleValueAt(series, i, item);
+  if (value === null) return false;
+
+  switch (item.condition) {
+    case 'below':
+      return value < item.threshold;
+    case 'above':
+      return value > item.threshold;
+    case 'changeUp':
+      return value >= item.threshold;
+    case 'changeDown':
+      return value <= -item.threshold;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Index of the date the rule's condition started holding, when it holds on the latest date;
+ * -1 when it doesn't hold, or held on every loaded date (a series of one point counts as crossed).
+ */
+function crossingIndex(series: SeriesPoint[], item: any): number {
+  let i = series.length - 1;
+  if (i < 0 || !conditionMet(series, i, item)) return -1;
+  while (i > 0 && conditionMet(series, i - 1, item)) i--;
+  return i === 0 && series.length > 1 ? -1 : i;
+}
+
+/** Human-readable description of a triggered rule for the digest email. */
+function describeAlert(card: any, item: any, series: SeriesPoint[]): string {
+  const latest = series[series.length - 1];
+  const source = item.vendor || 'avg of all vendors';
+  const label = `${card.name} (${card.setCode}) – ${item.priceType} ${item.finish}, ${source}`;
+
+  const currency = item.currency || 'USD';
+
+  if (item.condition === 'below' || item.condition === 'above') {
+    return `${label}: ${latest.price.toFixed(2)} ${currency} is ${item.condition} ${item.threshold} ${currency} (${latest.date})`;
+  }
+  const pct = ruleValueAt(series, series.length - 1, item)!;
+  return `${label}: ${pct >= 0 ? '+' : ''}${pct.toFixed(1)}% over ${item.windowDays} days, now ${latest.price.toFixed(2)} ${currency} (${latest.date})`;
+}
+
+async function main() {
+  logInfo('[evaluateAlerts.ts]', 'Evaluating watchlist alerts...');
+
+  const watchlists = await Watchlist.find().lean();
+  const uuids = new Set<string>();
+  for (const list of watchlists) for (const item of list.items) uuids.add(item.uuid);
+
+  const cards = await Card.find({ uuid: { $in: Array.from(uuids) } })
+    .select('uuid name setCode')
+    .lean();
+  const cardsByUuid = new Map(cards.map((c) => [c.uuid, c]));
+
+  // History only needs to reach back far enough for the longest change window (+ a buffer)
+  let maxWindow = 1;
+  for (const list of watchlists) {
+    for (const item of list.items) maxWindow = Math.max(maxWindow, item.windowDays || 1);
+  }
+  const priceTrees = await loadPriceTrees(Array.from(uuids), {
+    since: daysAgo(maxWindow + LATEST_LOOKBACK_DAYS),
+  });
+  const fx = await getFxConverter();
+
+  const triggered: TriggeredAlert[] = [];
+  let rules = 0;
+  let unconfirmed = 0;
+
+  for (const list of watchlists) {
+    // Anyone can create a watchlist, so only admin-confirmed addresses are mailed
+    if (list.email && !list.emailConfirmed) {
+      unconfirmed++;
+      continue;
+    }
+    const recipient = list.email || process.env.EMAIL_TO || '';
+    for (const item of list.items) {
+      rules++;
+      const card = cardsByUuid.get(item.uuid);
+      if (!card) continue;
+
+      const prices = priceTrees.get(item.uuid);
+      const series = getPriceSeries(
+        prices,
+        item.priceType as any,
+        item.finish,
+        item.vendor,
+        vendorPriceConverter(fx, prices, item.currency || 'USD')
+      );
+      if (!series.length) continue;
+
+      const last = series.length - 1;
+      const crossing = crossingIndex(series, item);
+      if (crossing < 0) continue;
+      // Already alerted for this crossing (older stamps only carry lastTriggeredAt)
+      const firedFor =
+        item.lastTriggeredDate || item.lastTriggeredAt?.toISOString().slice(0, 10) || '';
+      if (series[crossing].date <= firedFor) continue;
+
+      triggered.push({
+        watchlistId: list._id,
+        itemId: item._id,
+        recipient,
+        watchlistName: list.name,
+        line: describeAlert(card, item, series),
+        date: series[last].date,
+      });
+    }
+  }
+
+  logInfo(
+    '[evaluateAlerts.ts]',
+    `Checked ${rules} rules, ${triggered.length} triggered` +
+      (unconfirmed ? ` (${unconfirmed} watchlists skipped: email not confirmed)` : '')
+  );
+
+  // One digest per recipient
+  const byRecipient = new Map<string, TriggeredAlert[]>();
+  for (const alert of triggered) {
+    if (!byRecipient.has(alert.recipient)) byRecipient.set(alert.recipient, []);
+    byRecipient.get(alert.recipient)!.push(alert);
+  }
+
+  for (const [recipient, alerts] of byRecipient) {
+    const lines: string[] = [];
+    for (const name of new Set(alerts.map((a) => a.watchlistName))) {
+      lines.push(`${name}:`);
+      alerts.filter((a) => a.watchlistName === name).forEach((a) => lines.push(`  - ${a.line}`));
+      lines.push('');
+    }
+
+    if (!recipient || !isMailConfigured()) {
+      logInfo('[evaluateAlerts.ts]', `Email not configured, alerts:\n${lines.join('\n')}`);
+      continue;
+    }
+
+    try {
+      await sendMail({
+        to: recipient,
+        subject: `Goblin Bookie: ${alerts.length} price alert${alerts.length === 1 ? '' : 's'}`,
+        text: lines.join('\n'),
+      });
+    } catch (err) {
+      logError('[evaluateAlerts.ts]', `Failed to send digest to ${recipient}: ${err}`);
+      continue;
+    }
+    logInfo('[evaluateAlerts.ts]', `Sent digest with ${alerts.length} alerts to ${recipient}`);
+
+    // Stamp the delivered rules so they don't fire again for the same price date
+    const now = new Date();
+    for (const alert of alerts) {
+      await Watchlist.updateOne(
+        { _id: alert.watchlistId, 'items._id': alert.itemId },
+        { $set: { 'items.$.lastTriggeredAt': now, 'items.$.lastTriggeredDate': alert.date } }
+      );
+    }
+  }
+}
+
+export const evaluateAlertsStep: PipelineStep = {
+  name: 'evaluateAlerts',
+  description: 'Evaluate watchlist alerts',
+  inputs: [],
+  outputs: [],
+  db: 'required',
+  run: () => main(),
+};
+
+if (require.main === module) runStandalone(evaluateAlertsStep);
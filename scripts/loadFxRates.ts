@@ -0,0 +1,89 @@
+/**
+ * Goblin Bookie – Load FX Rates From a Local File
+ *
+ * PURPOSE:
+ *   Upserts dated FX rates into the FxRate collection from a local JSON file, so currency
+ *   conversion works without calling any external FX service.
+ *
+ * USAGE:
+ *   npx ts-node scripts/loadFxRates.ts [path/to/fxRates.json]
+ *   (defaults to FX_RATES_FILE, then data/fxRates.json; the daily pipeline always uses the default)
+ *
+ * FILE FORMAT (see data/fxRates.example.json):
+ *   { "base": "USD", "rates": { "2025-06-01": { "EUR": 0.92 }, "2025-06-02": { "EUR": 0.91 } } }
+ *   Each rate is units of that currency per 1 base unit. Only USD-based files are accepted.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Runs at the start of the daily pipeline's Mongo steps; a missing file is logged as a warning
+ *     and skipped (previously loaded rates stay in place), a malformed file fails the step.
+ *   - Only data/fxRates.example.json ships with the repo: copy it to data/fxRates.json (or point
+ *     FX_RATES_FILE at a real file). Until rates are stored, EUR prices are shown in EUR and left
+ *     out of USD averages.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import FxRate from '../src/models/FxRate';
+import { BASE_CURRENCY } from '../src/utils/currency';
+import { logInfo, logWarn } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone } from '../src/utils/pipeline';
+
+/** Rate file used when none is named: FX_RATES_FILE, then data/fxRates.json. */
+function defaultFilePath(): string {
+  return process.env.FX_RATES_FILE || path.join(__dirname, '../data/fxRates.json');
+}
+
+async function main(filePath: string) {
+  if (!fs.existsSync(filePath)) {
+    const stored = await FxRate.countDocuments();
+    logWarn(
+      '[loadFxRates.ts]',
+      `No FX rate file at ${filePath} (see data/fxRates.example.json); ` +
+        (stored
+          ? `keeping ${stored} stored dated rates`
+          : 'no rates stored, non-USD prices stay unconverted and are left out of averages')
+    );
+    return;
+  }
+
+  const file = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+  if ((file.base || BASE_CURRENCY) !== BASE_CURRENCY) {
+    throw new Error(`FX rate file must use base ${BASE_CURRENCY}, got ${file.base}`);
+  }
+
+  const ops: any[] = [];
+  for (const [date, rates] of Object.entries<any>(file.rates || {})) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error(`Invalid FX rate date: ${date}`);
+    for (const [currency, rate] of Object.entries(rates)) {
+      if (typeof rate !== 'number' || rate <= 0) {
+        throw new Error(`Invalid ${currency} rate on ${date}: ${rate}`);
+      }
+    }
+    ops.push({
+      updateOne: {
+        filter: { date },
+        update: { $set: { date, base: BASE_CURRENCY, rates } },
+        upsert: true,
+      },
+    });
+  }
+
+  if (ops.length > 0) await FxRate.bulkWrite(ops);
+  logInfo('[loadFxRates.ts]', `Loaded ${ops.length} dated FX rates from ${filePath}`);
+}
+
+export const loadFxRatesStep: PipelineStep = {
+  name: 'loadFxRates',
+  description: 'Load dated FX rates',
+  inputs: [],
+  outputs: [],
+  db: 'required',
+  run: () => main(defaultFilePath()),
+};
+
+// Only a standalone run reads a file argument: inside runDailySync, argv holds the pipeline's
+// flags. Flags such as --backfill are skipped here too.
+if (require.main === module) {
+  const fileArg = process.argv.slice(2).find((arg) => !arg.startsWith('--'));
+  runStandalone({ ...loadFxRatesStep, run: () => main(fileArg || defaultFilePath()) });
+}
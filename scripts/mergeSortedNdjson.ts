@@ -7,23 +7,103 @@
  *     - pricesSorted.ndjson: Sorted price data (uuid → prices object)
  *   into:
  *     - mergedCards.ndjson: Each line is a merged object combining metadata and prices for each uuid.
+ *     - mergeReport.json: Join mode, matched/orphan/duplicate counts and a sample of orphan uuids.
  *
  * CONTEXT:
  *   - This script is the critical “join” step in the daily sync pipeline.
  *   - Both input files are sorted by uuid, enabling a single linear pass (no in-memory maps, very low RAM).
  *   - This approach ensures the pipeline can handle huge datasets even on low-memory environments (<2GB).
  *
+ * JOIN MODES (MERGE_JOIN_MODE, default 'left'):
+ *   - 'inner': only uuids present in *both* files (cards *and* prices).
+ *   - 'left':  every card; cards without prices today are written without `prices`, so their
+ *              metadata (and image) is still upserted.
+ *   - 'outer': 'left' plus price lines without a card (written as `{ uuid, prices }`;
+ *              uploadToMongo.ts stores their points for existing cards but never creates a card).
+ *   Orphans on either side are counted whatever the mode.
+ *
  * IMPLEMENTATION DETAILS:
  *   - Uses Node's readline + async iterators for true line-by-line streaming.
- *   - Only outputs lines for uuids present in *both* files (cards *and* prices).
- *   - All file paths are relative to the current script.
+ *   - UUIDs are compared with compareKeys from src/utils/sortNdjson.ts, the same comparator the
+ *     sort steps use, so both sides agree on the order.
+ *   - A repeated uuid within one file is counted and skipped (the first line wins); a uuid lower
+ *     than the one before it means the file isn't sorted, which fails the step rather than
+ *     silently dropping matches.
+ *   - All file paths are in /temp.
  *   - All writes are streamed; output is flushed using waitForStreamFinish before exit.
  */
 
 import fs from 'fs';
 import readline from 'readline';
-import path from 'path';
 import { logInfo, logError, waitForStreamFinish } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone, tempPath } from '../src/utils/pipeline';
+import { compareKeys } from '../src/utils/sortNdjson';
+
+type JoinMode = 'inner' | 'left' | 'outer';
+
+const JOIN_MODES: JoinMode[] = ['inner', 'left', 'outer'];
+const REPORT_SAMPLE = 20;
+
+/** Join mode from MERGE_JOIN_MODE (default 'left'); throws on an unknown value. */
+function joinMode(): JoinMode {
+  const mode = (process.env.MERGE_JOIN_MODE || 'left').toLowerCase() as JoinMode;
+  if (!JOIN_MODES.includes(mode)) {
+    throw new Error(`MERGE_JOIN_MODE must be one of: ${JOIN_MODES.join(', ')}`);
+  }
+  return mode;
+}
+
+/** Per-file bookkeeping for the report. */
+export type SideStats = {
+  lines: number;
+  orphans: number;
+  duplicates: number;
+  orphanSample: string[];
+};
+
+/**
+ * Reads a sorted NDJSON file one object at a time, skipping repeated uuids and failing on
+ * out-of-order ones.
+ */
+export function sortedReader(filePath: string, label: string, stats: SideStats) {
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+  const iter = rl[Symbol.asyncIterator]();
+  let previous: string | null = null;
+
+  return async (): Promise<any | null> => {
+    for (;;) {
+      const next = await iter.next();
+      if (next.done) return null;
+      if (!next.value.trim()) continue;
+
+      const obj = JSON.parse(next.value);
+      if (typeof obj.uuid !== 'string') throw new Error(`${label}: line without a uuid`);
+      if (previous !== null) {
+        const order = compareKeys(obj.uuid, previous);
+        if (order < 0) {
+          throw new Error(`${label} is not sorted by uuid: ${obj.uuid} comes after ${previous}`);
+        }
+        if (order === 0) {
+          stats.duplicates++;
+          logError('[mergeSortedNdjson.ts]', `${label}: duplicate uuid ${obj.uuid}, skipped`);
+          continue;
+        }
+      }
+      previous = obj.uuid;
+      stats.lines++;
+      return obj;
+    }
+  };
+}
+
+/** Counts an unmatched line and keeps the first few uuids for the report. */
+function recordOrphan(stats: SideStats, uuid: string) {
+  stats.orphans++;
+  if (stats.orphanSample.length < REPORT_SAMPLE) stats.orphanSample.push(uuid);
+}
 
 /**
  * Merges two pre-sorted NDJSON files by uuid using a streaming, lockstep merge.
@@ -31,39 +111,54 @@ import { logInfo, logError, waitForStreamFinish } from '../src/utils/jsonHelpers
  * @param cardFile {string} – Path to sorted card metadata NDJSON
  * @param priceFile {string} – Path to sorted price NDJSON
  * @param outputFile {string} – Path to write merged NDJSON output
+ * @param reportFile {string} – Path to write the JSON merge report
  */
-async function mergeSortedNdjson(cardFile: string, priceFile: string, outputFile: string) {
-  // Stream both input files line by line
-  const cardRL = readline.createInterface({ input: fs.createReadStream(cardFile) });
-  const priceRL = readline.createInterface({ input: fs.createReadStream(priceFile) });
+async function mergeSortedNdjson(
+  cardFile: string,
+  priceFile: string,
+  outputFile: string,
+  reportFile: string
+) {
+  const mode = joinMode();
+  const newStats = (): SideStats => ({ lines: 0, orphans: 0, duplicates: 0, orphanSample: [] });
+  const cardStats = newStats();
+  const priceStats = newStats();
+  const nextCard = sortedReader(cardFile, 'cardsSorted.ndjson', cardStats);
+  const nextPrice = sortedReader(priceFile, 'pricesSorted.ndjson', priceStats);
 
   // Output stream for merged result
   const output = fs.createWriteStream(outputFile, 'utf-8');
+  let matched = 0;
+  let written = 0;
+  const write = (obj: any) => {
+    output.write(JSON.stringify(obj) + '\n');
+    written++;
+  };
+
+  // Advance both readers to their first lines
+  let card = await nextCard();
+  let price = await nextPrice();
+
+  // Merge join: walk through both files in lockstep; a side that runs out makes the rest orphans
+  while (card || price) {
+    const order = !price ? -1 : !card ? 1 : compareKeys(card.uuid, price.uuid);
 
-  // Async iterators let us read lines one at a time (no memory bloat)
-  const cardIter = cardRL[Symbol.asyncIterator]();
-  const priceIter = priceRL[Symbol.asyncIterator]();
-
-  // Advance both iterators to their first lines
-  let card = await cardIter.next();
-  let price = await priceIter.next();
-
-  // Merge join: walk through both files in lockstep, writing matches
-  while (!card.done && !price.done) {
-    const cardObj = JSON.parse(card.value);
-    const priceObj = JSON.parse(price.value);
-
-    if (cardObj.uuid < priceObj.uuid) {
-      // Card UUID is behind price UUID; advance card stream
-      card = await cardIter.next();
-    } else if (priceObj.uuid < cardObj.uuid) {
-      // Price UUID is behind card UUID; advance price stream
-      price = await priceIter.next();
+    if (order < 0) {
+      // Card without prices today
+      recordOrphan(cardStats, card.uuid);
+      if (mode !== 'inner') write(card);
+      card = await nextCard();
+    } else if (order > 0) {
+      // Prices without a card
+      recordOrphan(priceStats, price.uuid);
+      if (mode === 'outer') write({ uuid: price.uuid, prices: price.prices });
+      price = await nextPrice();
     } else {
       // UUIDs match: merge and write to output as a single line
-      output.write(JSON.stringify({ ...cardObj, prices: priceObj.prices }) + '\n');
-      card = await cardIter.next();
-      price = await priceIter.next();
+      write({ ...card, prices: price.prices });
+      matched++;
+      card = await nextCard();
+      price = await nextPrice();
     }
   }
 
@@ -71,12 +166,42 @@ async function mergeSortedNdjson(cardFile: string, priceFile: string, outputFile
   output.end();
   await waitForStreamFinish(output);
 
-  logInfo('[mergeSortedNdjson.ts]', 'mergedCards.ndjson created');
+  const report = {
+    mode,
+    matched,
+    written,
+    cards: cardStats,
+    prices: priceStats,
+  };
+  await fs.promises.writeFile(reportFile, JSON.stringify(report, null, 2));
+
+  logInfo(
+    '[mergeSortedNdjson.ts]',
+    `mergedCards.ndjson created (${mode} join): ${matched} matched, ${written} written, ` +
+      `${cardStats.orphans} cards without prices, ${priceStats.orphans} prices without cards, ` +
+      `${cardStats.duplicates + priceStats.duplicates} duplicate uuids skipped`
+  );
+  return {
+    matched,
+    written,
+    cardOrphans: cardStats.orphans,
+    priceOrphans: priceStats.orphans,
+    duplicates: cardStats.duplicates + priceStats.duplicates,
+  };
 }
 
-// Start the merge process with hard-coded relative paths
-mergeSortedNdjson(
-  path.join(__dirname, '../temp/cardsSorted.ndjson'),
-  path.join(__dirname, '../temp/pricesSorted.ndjson'),
-  path.join(__dirname, '../temp/mergedCards.ndjson')
-).catch((err) => logError('[mergeSortedNdjson.ts]', `Merge failed: ${err}`));
+export const mergeSortedNdjsonStep: PipelineStep = {
+  name: 'mergeSortedNdjson',
+  description: 'Merge sorted cards and prices',
+  inputs: ['cardsSorted.ndjson', 'pricesSorted.ndjson'],
+  outputs: ['mergedCards.ndjson', 'mergeReport.json'],
+  run: () =>
+    mergeSortedNdjson(
+      tempPath('cardsSorted.ndjson'),
+      tempPath('pricesSorted.ndjson'),
+      tempPath('mergedCards.ndjson'),
+      tempPath('mergeReport.json')
+    ),
+};
+
+if (require.main === module) runStandalone(mergeSortedNdjsonStep);
@@ -0,0 +1,108 @@
+/**
+ * Goblin Bookie – One-Time Price History Migration
+ *
+ * PURPOSE:
+ *   Moves the price history that used to be embedded in each Card document
+ *   (`prices.<vendor>.<type>.<finish>.<date>`) into the PricePoint collection, then removes the
+ *   embedded `prices` field so card documents shrink back to metadata only. Each migrated card also
+ *   gets its precomputed price `summary`, so list routes work before the next daily upload.
+ *
+ * USAGE:
+ *   npx ts-node scripts/migratePriceHistory.ts                 # migrate and unset Card.prices
+ *   npx ts-node scripts/migratePriceHistory.ts --keep-embedded # migrate, leave Card.prices in place
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Reads cards through the raw collection (the Card schema no longer declares `prices`).
+ *   - Streams cards with a cursor and writes points in batches of 200 cards (memory-safe).
+ *   - Points are upserted on their unique key, so the script can be stopped and re-run safely;
+ *     a card's embedded prices are only unset after its points were written.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Card from '../src/models/Card';
+import PricePoint from '../src/models/PricePoint';
+import { logInfo, logError } from '../src/utils/jsonHelpers';
+import { toPriceNumber } from '../src/utils/priceHelpers';
+import { flattenPriceTree, pricePointUpsert } from '../src/utils/priceHistory';
+import { computePriceSummary } from '../src/utils/priceSummary';
+import { getFxConverter } from '../src/utils/currency';
+
+dotenv.config();
+
+const keepEmbedded = process.argv.includes('--keep-embedded');
+const batchSize = 200;
+
+/**
+ * Unwraps extended-JSON price values ({ $numberDouble }) so flattenPriceTree sees plain numbers.
+ */
+function normalizeTree(prices: any) {
+  for (const vendor in prices || {}) {
+    for (const type in prices[vendor] || {}) {
+      for (const finish in prices[vendor][type] || {}) {
+        const dates = prices[vendor][type][finish];
+        if (!dates || typeof dates !== 'object') continue;
+        for (const date in dates) dates[date] = toPriceNumber(dates[date]);
+      }
+    }
+  }
+  return prices;
+}
+
+async function main() {
+  await mongoose.connect(process.env.MONGO_URI!, { dbName: 'goblin-bookie' });
+  await PricePoint.syncIndexes();
+  logInfo('[migratePriceHistory.ts]', 'Migrating embedded price history to PricePoint...');
+  const fx = await getFxConverter();
+
+  let cards = 0;
+  let points = 0;
+  let cardOps: any[] = [];
+  let ops: any[] = [];
+
+  const flush = async () => {
+    if (ops.length > 0) await PricePoint.bulkWrite(ops, { ordered: false });
+    if (cardOps.length > 0) await Card.collection.bulkWrite(cardOps, { ordered: false });
+    points += ops.length;
+    ops = [];
+    cardOps = [];
+  };
+
+  const cursor = Card.collection.find(
+    { prices: { $exists: true } },
+    { projection: { uuid: 1, prices: 1 } }
+  );
+  for await (const card of cursor) {
+    const prices = normalizeTree(card.prices);
+    for (const point of flattenPriceTree(card.uuid, prices)) {
+      ops.push(pricePointUpsert(point));
+    }
+
+    // Seed the precomputed summary from the same history, then drop the embedded copy
+    const update: any = { $set: { summary: computePriceSummary(prices, fx) } };
+    if (!keepEmbedded) update.$unset = { prices: '' };
+    cardOps.push({ updateOne: { filter: { uuid: card.uuid }, update } });
+    cards++;
+
+    if (cardOps.length >= batchSize) {
+      await flush();
+      if (cards % 5000 === 0) {
+        logInfo('[migratePriceHistory.ts]', `Progress: ${cards} cards, ${points} points`);
+      }
+    }
+  }
+  await flush();
+
+  logInfo(
+    '[migratePriceHistory.ts]',
+    `Migration complete: ${cards} cards, ${points} price points written` +
+      (keepEmbedded ? ' (embedded prices kept)' : ' (embedded prices removed)')
+  );
+  await mongoose.disconnect();
+}
+
+main().catch(async (err) => {
+  logError('[migratePriceHistory.ts]', `Migration failed: ${err}`);
+  await mongoose.disconnect();
+  process.exit(1);
+});
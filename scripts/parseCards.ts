@@ -2,43 +2,84 @@
  * Goblin Bookie – Parse Card Metadata (AllIdentifiers.json)
  *
  * PURPOSE:
- *   Streams MTGJSON's AllIdentifiers.json and outputs only English-language, paper card entries
- *   (with required metadata) as NDJSON—one card per line. This filtering step dramatically reduces
+ *   Streams MTGJSON's AllIdentifiers.json and outputs only paper card entries in the configured
+ *   languages (with required metadata) as NDJSON—one card per line. This filtering step dramatically reduces
  *   the dataset size for downstream processing and memory efficiency.
  *
  * CONTEXT:
  *   - AllIdentifiers.json is massive and includes digital cards, non-English cards, promos, tokens, etc.
- *   - We want only English, paper cards with uuid, name, and setCode for Goblin Bookie MVP.
+ *   - We want only paper cards with uuid, name, and setCode in the languages we trade, plus the
+ *     gameplay metadata card pages and search filters use (rarity, colors, type line, mana value,
+ *     oracle text, collector number, artist, format legalities).
  *   - Output as NDJSON (newline-delimited) enables safe, memory-efficient streaming in all later scripts.
  *
  * IMPLEMENTATION DETAILS:
  *   - Uses stream-json for memory-efficient, event-based processing of large JSON.
- *   - Filters out any entry that isn't a standard English paper card or is missing key metadata.
+ *   - Kept languages come from CARD_LANGUAGES (comma-separated MTGJSON language names, e.g.
+ *     "English,Japanese,German", or "all"); defaults to English only.
+ *   - Filters out any entry in another language or missing key metadata.
+ *   - Non-English entries keep their localized `printedName`; `name` stays the English name, so
+ *     search and printings group every language together.
+ *   - Every record is checked against ParsedCardRecord (src/utils/recordSchemas.ts) before it is
+ *     written; records that fail are logged (first few only), counted as `invalid` and skipped.
  *   - Writes results as NDJSON (one valid card per line).
+ *   - Legalities are stored as lowercase statuses ('legal', 'banned', 'restricted') per format, so
+ *     search can filter with an exact match.
  *   - Logs total vs. kept counts for quick health check.
  */
 
 import fs from 'fs';
-import path from 'path';
 import { chain } from 'stream-chain';
 import { parser } from 'stream-json';
 import { pick } from 'stream-json/filters/Pick';
 import { streamObject } from 'stream-json/streamers/StreamObject';
 import { logInfo, logError, waitForStreamFinish } from '../src/utils/jsonHelpers';
+import { normalizeName } from '../src/utils/nameSearch';
+import { PipelineStep, runStandalone, tempPath } from '../src/utils/pipeline';
+import { ParsedCardRecord, validateCardRecord } from '../src/utils/recordSchemas';
 
-// Define input/output paths (relative to this script)
-const inputPath = path.join(__dirname, '../temp/AllIdentifiers.json');
-const outputPath = path.join(__dirname, '../temp/parsedCards.ndjson');
+// Languages to keep (MTGJSON names); "all" keeps every language
+const languageSetting = process.env.CARD_LANGUAGES || 'English';
+const keptLanguages = new Set(
+  languageSetting
+    .split(',')
+    .map((l) => l.trim().toLowerCase())
+    .filter(Boolean)
+);
+const keepAllLanguages = keptLanguages.has('all');
+
+// Invalid records logged individually before only being counted
+const MAX_LOGGED_INVALID = 20;
+
+/**
+ * Lowercases MTGJSON's `{ format: 'Legal' | 'Banned' | ... }` map, dropping empty entries.
+ */
+function normalizeLegalities(legalities: any): Record<string, string> | undefined {
+  if (!legalities || typeof legalities !== 'object') return undefined;
+  const result: Record<string, string> = {};
+  for (const [format, status] of Object.entries(legalities)) {
+    if (typeof status === 'string' && status) result[format] = status.toLowerCase();
+  }
+  return result;
+}
+
+// Define input/output paths (in /temp)
+const inputPath = tempPath('AllIdentifiers.json');
+const outputPath = tempPath('parsedCards.ndjson');
 
 /**
- * Streams AllIdentifiers.json, filters for English paper cards with required fields,
+ * Streams AllIdentifiers.json, filters for paper cards in the kept languages with required fields,
  * writes one minimal JSON object per line (NDJSON), and logs results.
  */
 async function parseCardsNDJSON() {
-  logInfo('[parseCards.ts]', 'Starting parseCards from AllIdentifiers.json');
+  logInfo(
+    '[parseCards.ts]',
+    `Starting parseCards from AllIdentifiers.json (languages: ${languageSetting})`
+  );
 
   let total = 0;
   let kept = 0;
+  let invalid = 0;
 
   // Streaming pipeline: read → parse → pick data → iterate objects
   const pipeline = chain([
@@ -51,39 +92,70 @@ async function parseCardsNDJSON() {
   // NDJSON output writer
   const writer = fs.createWriteStream(outputPath, 'utf-8');
 
-  // Main streaming handler: only keep English cards with all key fields
+  // Main streaming handler: only keep cards in the kept languages with all key fields
   pipeline.on('data', ({ value }) => {
     total++;
-    if (value.language !== 'English') return; // Only English
+    if (!keepAllLanguages && !keptLanguages.has(String(value.language).toLowerCase())) return;
     if (!value.uuid || !value.name || !value.setCode) return; // Only cards with essentials
 
     // Minimal card object: only required fields (+ optional Scryfall/purchaseUrls for downstream)
-    const card = {
+    const card: ParsedCardRecord = {
       uuid: value.uuid,
       name: value.name,
+      normalizedName: normalizeName(value.name), // Accent/punctuation-free name for search
       setCode: value.setCode,
       language: value.language,
+      printedName: value.printedName, // Localized name on non-English printings
       scryfallId: value.identifiers?.scryfallId, // Optional: for Scryfall linking
       purchaseUrls: value.purchaseUrls, // Optional: for buy links
+      rarity: value.rarity,
+      colors: value.colors,
+      colorIdentity: value.colorIdentity,
+      typeLine: value.type, // Full type line, e.g. "Legendary Creature — Elf Druid"
+      manaValue: value.manaValue,
+      oracleText: value.text,
+      collectorNumber: value.number,
+      artist: value.artist,
+      legalities: normalizeLegalities(value.legalities),
     };
 
+    const problems = validateCardRecord(card);
+    if (problems.length) {
+      if (++invalid <= MAX_LOGGED_INVALID) {
+        logError('[parseCards.ts]', `Skipping invalid card ${card.uuid}: ${problems.join('; ')}`);
+      }
+      return;
+    }
+
     writer.write(JSON.stringify(card) + '\n');
     kept++;
   });
 
-  // When finished, flush and log stats
-  pipeline.on('end', async () => {
-    writer.end();
-    await waitForStreamFinish(writer);
-    logInfo(
-      '[parseCards.ts]',
-      `parseCards complete: ${total} total entries, ${kept} cards written`
-    );
+  // Wait for the whole file; any stream error fails the step
+  await new Promise<void>((resolve, reject) => {
+    pipeline.on('end', resolve);
+    pipeline.on('error', (err) => {
+      logError('[parseCards.ts]', `Stream failed: ${err}`);
+      reject(err);
+    });
   });
 
-  // Log any stream errors with full context
-  pipeline.on('error', (err) => logError('[parseCards.ts]', `Stream failed: ${err}`));
+  // When finished, flush and log stats
+  writer.end();
+  await waitForStreamFinish(writer);
+  logInfo(
+    '[parseCards.ts]',
+    `parseCards complete: ${total} total entries, ${kept} cards written, ${invalid} invalid`
+  );
+  return { total, kept, invalid };
 }
 
-// Start the process when the script runs
-parseCardsNDJSON();
+export const parseCardsStep: PipelineStep = {
+  name: 'parseCards',
+  description: 'Parse card metadata',
+  inputs: ['AllIdentifiers.json'],
+  outputs: ['parsedCards.ndjson'],
+  run: parseCardsNDJSON,
+};
+
+if (require.main === module) runStandalone(parseCardsStep);
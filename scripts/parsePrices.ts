@@ -2,9 +2,9 @@
  * Goblin Bookie – Parse Price Data (AllPrices.json)
  *
  * PURPOSE:
- *   Streams MTGJSON's AllPrices.json and outputs the most recent price for each card UUID,
+ *   Streams MTGJSON's AllPrices.json (or AllPricesToday.json) and outputs the most recent price for each card UUID,
  *   for each vendor/type/finish combo, as NDJSON—one card per line. Only includes cards
- *   present in parsedCards.ndjson (already filtered for English paper cards).
+ *   present in parsedCards.ndjson (filtered by parseCards.ts (CARD_LANGUAGES)).
  *
  * CONTEXT:
  *   - AllPrices.json contains 90+ days of data for every card/finish/vendor—much more than is needed for MVP.
@@ -15,9 +15,31 @@
  *
  * IMPLEMENTATION DETAILS:
  *   - Loads all valid card UUIDs into a Set from parsedCards.ndjson before processing prices.
+ *   - Reads the price file named in temp/downloadManifest.json (AllPricesToday.json on normal days,
+ *     AllPrices.json for backfills and date-gap repair; see downloadJson.ts), defaulting to
+ *     AllPrices.json.
  *   - Uses stream-json for fully streaming, event-driven processing (no memory bloat).
  *   - For each UUID, writes the most recent price per vendor/type/finish as one NDJSON object.
+ *   - Gap repair: open gaps recorded by scripts/detectPriceGaps.ts (PriceGap collection) are added
+ *     to the daily output—every price on a missing date, and every date for a card that fell
+ *     behind. Skipped (with a log line) when MongoDB isn't reachable.
+ *   - Backfill mode keeps every date (or only dates in --since/--until) instead of just the latest.
+ *     Uploads upsert one PricePoint per date, so backfilled dates merge into existing history
+ *     without touching dates already stored.
+ *   - Vendors, and the price types and finishes read for each, come from the vendor registry
+ *     (src/utils/vendors.ts); other vendors in the file are ignored.
+ *   - Each vendor's MTGJSON `currency` is kept next to its prices so nothing downstream has to
+ *     assume every vendor prices in USD.
+ *   - Prices that aren't plausible numbers (see isPlausiblePrice in src/utils/recordSchemas.ts)
+ *     are dropped point by point and counted as `invalidPrices`; every written record is checked
+ *     against ParsedPriceRecord. Jumps against recent history are checked later, by
+ *     validatePrices.ts.
  *   - Logs processed/kept counts so any pipeline breakage is immediately obvious.
+ *
+ * USAGE:
+ *   npx ts-node scripts/parsePrices.ts                                    (daily: latest + gaps)
+ *   npx ts-node scripts/parsePrices.ts --backfill                         (every date in the file)
+ *   npx ts-node scripts/parsePrices.ts --since=2025-05-01 --until=2025-05-14  (a date range)
  */
 
 import fs from 'fs';
@@ -27,10 +49,54 @@ import { chain } from 'stream-chain';
 import { parser } from 'stream-json';
 import { pick } from 'stream-json/filters/Pick';
 import { streamObject } from 'stream-json/streamers/StreamObject';
+import PriceGap, { MAX_FILL_ATTEMPTS } from '../src/models/PriceGap';
 import { logInfo, logError, waitForStreamFinish } from '../src/utils/jsonHelpers';
+import {
+  isDbConnected,
+  PipelineOptions,
+  PipelineStep,
+  runStandalone,
+  tempPath,
+} from '../src/utils/pipeline';
+import {
+  isPlausiblePrice,
+  ParsedPriceRecord,
+  PriceTreeRecord,
+  validatePriceRecord,
+} from '../src/utils/recordSchemas';
+import { VENDORS } from '../src/utils/vendors';
 
 const knownUUIDs = new Set<string>();
 
+/** Dates missing for every card, and cards missing dates, to re-read from the price file. */
+export type GapTargets = { dates: Set<string>; cards: Set<string> };
+
+// Gap repair targets loaded from MongoDB (daily mode only)
+const gaps: GapTargets = { dates: new Set<string>(), cards: new Set<string>() };
+
+/**
+ * Loads the open, not yet exhausted price gaps recorded by detectPriceGaps.ts.
+ */
+async function loadGaps() {
+  if (!isDbConnected()) {
+    logInfo('[parsePrices.ts]', 'MongoDB not connected, skipping gap repair');
+    return;
+  }
+  try {
+    const openGaps = await PriceGap.find({ attempts: { $lte: MAX_FILL_ATTEMPTS } }).lean();
+    for (const gap of openGaps) {
+      if (gap.kind === 'date' && gap.date) gaps.dates.add(gap.date);
+      if (gap.kind === 'card' && gap.uuid) gaps.cards.add(gap.uuid);
+    }
+    logInfo(
+      '[parsePrices.ts]',
+      `Gap repair: ${gaps.dates.size} missing dates, ${gaps.cards.size} cards behind`
+    );
+  } catch (err) {
+    logError('[parsePrices.ts]', `Could not load price gaps, skipping gap repair: ${err}`);
+  }
+}
+
 /**
  * Loads all UUIDs from parsedCards.ndjson into a Set, ensuring we process
  * only relevant card prices (matching previous filters).
@@ -67,21 +133,64 @@ function getMostRecentDate(obj: Record<string, number>): string | null {
   return dates.sort().reverse()[0] ?? null;
 }
 
-type PriceDateEntry = { [date: string]: number };
-type FinishPrices = { [finish: string]: PriceDateEntry };
-type PriceType = { [type: string]: FinishPrices };
-type VendorPrices = { [vendor: string]: PriceType };
+/**
+ * Returns the dates to keep from one vendor/type/finish {date: price} object:
+ * every date in range when backfilling, otherwise the latest date plus any gap dates
+ * (all dates for a card that fell behind). `targets` defaults to the gaps loaded for this run.
+ */
+export function selectDates(
+  uuid: string,
+  obj: Record<string, number>,
+  options: PipelineOptions,
+  targets: GapTargets = gaps
+): string[] {
+  const dates = Object.keys(obj).filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d));
+  if (options.backfill) {
+    const { since, until } = options;
+    return dates.filter((d) => (!since || d >= since) && (!until || d <= until));
+  }
+  if (targets.cards.has(uuid)) return dates;
+
+  const selected = dates.filter((d) => targets.dates.has(d));
+  const mostRecent = getMostRecentDate(obj);
+  if (mostRecent && !targets.dates.has(mostRecent)) selected.push(mostRecent);
+  return selected;
+}
+
+/**
+ * Returns the path of the price file downloadJson.ts fetched for this run.
+ */
+function resolvePricesPath(): string {
+  const manifestPath = tempPath('downloadManifest.json');
+  let pricesFile = 'AllPrices.json';
+  if (fs.existsSync(manifestPath)) {
+    pricesFile = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')).pricesFile || pricesFile;
+  }
+  return tempPath(pricesFile);
+}
 
 /**
- * Streams AllPrices.json, extracting only the latest price per vendor/type/finish
+ * Streams the price file, extracting the selected dates (see selectDates) per vendor/type/finish
  * for each card UUID present in knownUUIDs, writing NDJSON output line by line.
  */
-async function parsePricesNDJSON() {
-  const cardsPath = path.join(__dirname, '../temp/parsedCards.ndjson');
-  const pricesPath = path.join(__dirname, '../temp/AllPrices.json');
-  const outputPath = path.join(__dirname, '../temp/parsedPrices.ndjson');
+async function parsePricesNDJSON(options: PipelineOptions) {
+  const cardsPath = tempPath('parsedCards.ndjson');
+  const pricesPath = resolvePricesPath();
+  const outputPath = tempPath('parsedPrices.ndjson');
+  if (!fs.existsSync(pricesPath)) throw new Error(`Price file not found: ${pricesPath}`);
 
   await loadUUIDs(cardsPath);
+  if (options.backfill) {
+    logInfo(
+      '[parsePrices.ts]',
+      `Backfill mode: keeping every date from ${options.since || 'the start'} to ${options.until || 'the end'}`
+    );
+    if (path.basename(pricesPath) !== 'AllPrices.json') {
+      throw new Error(`Backfill needs AllPrices.json, but this run downloaded ${pricesPath}`);
+    }
+  } else {
+    await loadGaps();
+  }
 
   const writer = fs.createWriteStream(outputPath, 'utf-8');
   const pipeline = chain([
@@ -93,6 +202,8 @@ async function parsePricesNDJSON() {
 
   let processed = 0;
   let kept = 0;
+  let invalidPrices = 0;
+  let invalidRecords = 0;
 
   pipeline.on('data', ({ key, value }) => {
     processed++;
@@ -100,32 +211,37 @@ async function parsePricesNDJSON() {
     // Only process prices for known UUIDs (previously filtered cards)
     if (!knownUUIDs.has(key)) return;
 
-    const pricesToday: VendorPrices = {};
+    const pricesToday: PriceTreeRecord = {};
 
-    // For each supported vendor (tcgplayer, cardkingdom, cardmarket)
-    for (const vendor of ['tcgplayer', 'cardkingdom', 'cardmarket']) {
+    // For each registered vendor, only the price types and finishes it publishes
+    for (const { id: vendor, priceTypes, finishes } of VENDORS) {
       const vendorData = value.paper?.[vendor];
       if (!vendorData) continue;
 
-      for (const type of ['retail', 'buylist']) {
+      for (const type of priceTypes) {
         const typeData = vendorData[type];
         if (!typeData) continue;
 
-        for (const finish of ['normal', 'foil', 'etched']) {
+        for (const finish of finishes) {
           const finishData = typeData[finish];
           if (!finishData || typeof finishData !== 'object') continue;
 
-          // Only keep the most recent price date for this vendor/type/finish
-          const mostRecentDate = getMostRecentDate(finishData);
-          if (!mostRecentDate) continue;
+          // Daily: latest date (+ gap repairs); backfill: every date in range
+          for (const date of selectDates(key, finishData, options)) {
+            const price = finishData[date];
+            if (price === undefined) continue;
+            if (!isPlausiblePrice(price)) {
+              invalidPrices++;
+              continue;
+            }
 
-          const price = finishData[mostRecentDate];
-          if (price !== undefined) {
-            if (!pricesToday[vendor]) pricesToday[vendor] = {};
-            if (!pricesToday[vendor][type]) pricesToday[vendor][type] = {};
-            if (!pricesToday[vendor][type][finish]) pricesToday[vendor][type][finish] = {};
+            // Carry the vendor's MTGJSON currency (e.g. EUR for cardmarket) alongside its prices
+            if (!pricesToday[vendor]) pricesToday[vendor] = { currency: vendorData.currency };
+            const vendorPrices = pricesToday[vendor];
+            const typePrices = vendorPrices[type] || (vendorPrices[type] = {});
+            if (!typePrices[finish]) typePrices[finish] = {};
 
-            pricesToday[vendor][type][finish][mostRecentDate] = price;
+            typePrices[finish][date] = price;
           }
         }
       }
@@ -133,25 +249,45 @@ async function parsePricesNDJSON() {
 
     // Only write if there is at least one price (avoid blank lines)
     if (Object.keys(pricesToday).length > 0) {
-      writer.write(JSON.stringify({ uuid: key, prices: pricesToday }) + '\n');
+      const record: ParsedPriceRecord = { uuid: key, prices: pricesToday };
+      const problems = validatePriceRecord(record);
+      if (problems.length) {
+        invalidRecords++;
+        logError('[parsePrices.ts]', `Skipping invalid prices for ${key}: ${problems.join('; ')}`);
+        return;
+      }
+      writer.write(JSON.stringify(record) + '\n');
       kept++;
     }
   });
 
-  // Log summary when finished
-  pipeline.on('end', async () => {
-    writer.end();
-    await waitForStreamFinish(writer);
-    logInfo(
-      '[parsePrices.ts]',
-      `parsePrices complete: ${processed} total prices checked, ${kept} matched and written`
-    );
+  // Wait for the whole file; any stream error fails the step
+  await new Promise<void>((resolve, reject) => {
+    pipeline.on('end', resolve);
+    pipeline.on('error', (err) => {
+      logError('[parsePrices.ts]', `Stream failed: ${err}`);
+      reject(err);
+    });
   });
 
-  pipeline.on('error', (err) => logError('[parsePrices.ts]', `Stream failed: ${err}`));
+  // Log summary when finished
+  writer.end();
+  await waitForStreamFinish(writer);
+  logInfo(
+    '[parsePrices.ts]',
+    `parsePrices complete: ${processed} total prices checked, ${kept} matched and written, ` +
+      `${invalidPrices} implausible prices dropped, ${invalidRecords} invalid records skipped`
+  );
+  return { total: processed, kept, invalidPrices, invalidRecords };
 }
 
-// Start the process and log if it fails catastrophically
-parsePricesNDJSON().catch((err) => {
-  logError('[parsePrices.ts]', `parsePrices failed: ${err}`);
-});
+export const parsePricesStep: PipelineStep = {
+  name: 'parsePrices',
+  description: 'Parse price data',
+  inputs: ['parsedCards.ndjson'],
+  outputs: ['parsedPrices.ndjson'],
+  db: 'optional',
+  run: parsePricesNDJSON,
+};
+
+if (require.main === module) runStandalone(parsePricesStep);
@@ -11,66 +11,319 @@
  *
  * CONTEXT:
  *   - Run this manually or via a scheduled cron job (e.g., on Render or server) to keep your database in sync.
- *   - Each step is a separate TypeScript script, invoked with `npx ts-node` so you never need to precompile.
+ *   - Every step is imported from its script in /scripts (each exports a PipelineStep, see
+ *     src/utils/pipeline.ts) and runs in this process, sharing one MongoDB connection.
  *   - If any step fails, the pipeline stops immediately and exits with a non-zero code.
- *   - All script output and errors appear in your terminal/console, and logs from each child script
- *     are handled by their own logging helpers (see /logs/sync.log).
+ *   - Progress is written to temp/runManifest.json (kept by cleanUp.ts), so a failed run can be
+ *     inspected and resumed.
  *
  * PIPELINE STEPS:
- *   1. Download MTGJSON files (AllIdentifiers.json, AllPrices.json)
- *   2. Parse cards (outputs parsedCards.ndjson)
- *   3. Parse prices (outputs parsedPrices.ndjson)
- *   4. Sort both NDJSON files by UUID (cardsSorted.ndjson, pricesSorted.ndjson)
- *   5. Merge card and price data into mergedCards.ndjson
- *   6. Upload merged data to MongoDB
- *   7. Clean up temp files (preserving .keep for version control)
+ *   1. downloadJson: download changed MTGJSON files (AllIdentifiers.json, AllPricesToday.json or
+ *      AllPrices.json, SetList.json)
+ *   2. parseCards: parse cards (outputs parsedCards.ndjson)
+ *   3. parsePrices: parse prices (outputs parsedPrices.ndjson)
+ *   4. sortCards, sortPrices: sort both NDJSON files by UUID (cardsSorted.ndjson, pricesSorted.ndjson)
+ *   5. mergeSortedNdjson, validatePrices: merge card and price data into mergedCards.ndjson, then
+ *      check it and quarantine suspicious price jumps (validatedCards.ndjson)
+ *   6. loadFxRates, uploadToMongo, uploadSets, detectPriceGaps: load FX rates from the local rate
+ *      file, upload merged data to MongoDB, then set metadata (names, release dates), then record
+ *      any gaps in stored price history for the next run
+ *   7. evaluateAlerts: evaluate watchlist price alerts and email digests
+ *   8. snapshotPortfolios: snapshot portfolio values for today
+ *   9. computeMovers: precompute market movers (1d/7d/30d price changes)
+ *  10. computeArbitrage: precompute cross-vendor arbitrage opportunities
+ *      compactPrices (optional): downsample old price history to weekly/monthly points
+ *  11. cleanUp: clean up temp files (preserving .keep, the run manifest and the cached downloads)
+ *  12. syncScryfallImages: sync Scryfall images for missing imageUrls
+ *
+ * USAGE:
+ *   npx ts-node scripts/runDailySync.ts [flags]
+ *     --list                 print the steps and exit
+ *     --from=<step>          start at a step (skipping the ones before it)
+ *     --only=<step>,<step>   run only these steps
+ *     --skip=<step>,<step>   run everything except these steps
+ *     --with=<step>,<step>   also run these optional steps (optional steps named in --only
+ *                            run too)
+ *     --resume               rerun the steps the last run didn't finish, with its options
+ *     --backfill, --since=YYYY-MM-DD, --until=YYYY-MM-DD
+ *                            load every date (or a range) from the full AllPrices.json
  *
  * IMPLEMENTATION DETAILS:
- *   - Uses `execSync` to block and wait for each step before starting the next (safe, deterministic).
- *   - Uses path.join(__dirname, ...) so it works no matter where script is launched from.
- *   - All paths are relative to project root for portability.
- *   - No direct logging from this script—all logs are handled by sub-scripts.
+ *   - Steps run strictly one after another (safe, deterministic, and memory-friendly).
+ *   - Before a step runs its declared input files must exist in /temp, and after it finishes its
+ *     declared outputs must exist, so a partial --from/--only run fails fast with a clear message.
+ *   - MongoDB is connected at the start of the run when MONGO_URI is set (otherwise steps that
+ *     need it fail), and the run is mirrored into the SyncRun collection after every step change,
+ *     with per-step durations and the counts steps report (served by /api/admin/sync-runs).
+ *     Failing to record history is logged but never fails the run.
+ *   - When a run fails, or its counts look wrong against the previous run (e.g. kept cards down
+ *     more than 10%, zero prices written), a summary is sent through src/utils/notifications.ts
+ *     (email and/or webhook).
  */
 
-import { execSync } from 'child_process';
-import path from 'path';
+import fs from 'fs';
+import mongoose from 'mongoose';
+import { logInfo, logError, ensureDirExists } from '../src/utils/jsonHelpers';
+import SyncRun from '../src/models/SyncRun';
+import { notify } from '../src/utils/notifications';
+import { findAnomalies, formatRunSummary, loadPreviousCounts } from '../src/utils/syncReport';
+import {
+  connectDb,
+  isDbConnected,
+  missingFiles,
+  parsePipelineOptions,
+  PipelineOptions,
+  PipelineStep,
+  RUN_MANIFEST_FILE,
+  RunManifest,
+  TEMP_DIR,
+  tempPath,
+} from '../src/utils/pipeline';
+import { downloadJsonStep } from './downloadJson';
+import { parseCardsStep } from './parseCards';
+import { parsePricesStep } from './parsePrices';
+import { sortCardsStep } from './sortCards';
+import { sortPricesStep } from './sortPrices';
+import { mergeSortedNdjsonStep } from './mergeSortedNdjson';
+import { validatePricesStep } from './validatePrices';
+import { loadFxRatesStep } from './loadFxRates';
+import { uploadToMongoStep } from './uploadToMongo';
+import { uploadSetsStep } from './uploadSets';
+import { detectPriceGapsStep } from './detectPriceGaps';
+import { evaluateAlertsStep } from './evaluateAlerts';
+import { snapshotPortfoliosStep } from './snapshotPortfolios';
+import { computeMoversStep } from './computeMovers';
+import { computeArbitrageStep } from './computeArbitrage';
+import { compactPricesStep } from './compactPrices';
+import { cleanUpStep } from './cleanUp';
+import { syncScryfallImagesStep } from './syncScryfallImages';
 
-const runScript = (script: string) =>
-  execSync(`npx ts-node ${path.join(__dirname, script)}`, { stdio: 'inherit' });
+const TAG = '[runDailySync.ts]';
 
-path.join(__dirname, '../temp');
-async function runAll() {
+/** Every step, in pipeline order. */
+const STEPS: PipelineStep[] = [
+  downloadJsonStep,
+  parseCardsStep,
+  parsePricesStep,
+  sortCardsStep,
+  sortPricesStep,
+  mergeSortedNdjsonStep,
+  validatePricesStep,
+  loadFxRatesStep,
+  uploadToMongoStep,
+  uploadSetsStep,
+  detectPriceGapsStep,
+  evaluateAlertsStep,
+  snapshotPortfoliosStep,
+  computeMoversStep,
+  computeArbitrageStep,
+  compactPricesStep,
+  cleanUpStep,
+  syncScryfallImagesStep,
+];
+
+const manifestPath = tempPath(RUN_MANIFEST_FILE);
+
+/** Writes the manifest to /temp and mirrors it into the SyncRun collection when connected. */
+async function saveRun(manifest: RunManifest) {
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  if (!isDbConnected()) return;
   try {
-    // STEP 1: Download raw MTGJSON files (AllIdentifiers.json, AllPrices.json)
-    runScript('downloadJson.ts');
+    await SyncRun.replaceOne({ runId: manifest.runId }, manifest, { upsert: true });
+  } catch (err) {
+    logError(TAG, `Could not record run history: ${err}`);
+  }
+}
 
-    // STEP 2: Parse card data into parsedCards.ndjson
-    runScript('parseCards.ts');
+const elapsedMs = (from: string, to: string) => Date.parse(to) - Date.parse(from);
 
-    // STEP 3: Parse price data into parsedPrices.ndjson
-    runScript('parsePrices.ts');
+function readManifest(): RunManifest | null {
+  if (!fs.existsSync(manifestPath)) return null;
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+}
 
-    // STEP 4: Sort NDJSON files by UUID for streaming merge
-    runScript('sortCards.ts');
-    runScript('sortPrices.ts');
+/**
+ * Notifies operators when the run failed or its counts look wrong (see src/utils/syncReport.ts).
+ * Never throws: a broken notification channel must not hide the run's own outcome.
+ */
+async function reportRun(manifest: RunManifest, previousManifest: RunManifest | null) {
+  try {
+    const anomalies = findAnomalies(manifest, await loadPreviousCounts(manifest, previousManifest));
+    anomalies.forEach((anomaly) => logError(TAG, `Anomaly: ${anomaly}`));
+    if (manifest.status !== 'failed' && !anomalies.length) return;
 
-    // STEP 5: Merge card and price data into mergedCards.ndjson
-    runScript('mergeSortedNdjson.ts');
+    await notify({
+      level: manifest.status === 'failed' ? 'error' : 'warning',
+      subject:
+        manifest.status === 'failed'
+          ? `Goblin Bookie: daily sync failed (${manifest.error})`
+          : `Goblin Bookie: daily sync finished with ${anomalies.length} anomal${anomalies.length === 1 ? 'y' : 'ies'}`,
+      text: formatRunSummary(manifest, anomalies),
+      details: { run: manifest, anomalies },
+    });
+  } catch (err) {
+    logError(TAG, `Could not report run: ${err}`);
+  }
+}
 
-    // STEP 6: Upload merged data to MongoDB
-    runScript('uploadToMongo.ts');
+/** Reads a comma-separated `--name=a,b` flag, rejecting unknown step names. */
+function stepListFlag(argv: string[], name: string): string[] | undefined {
+  const arg = argv.find((a) => a.startsWith(`--${name}=`));
+  if (!arg) return undefined;
+  const names = arg
+    .slice(name.length + 3)
+    .split(',')
+    .map((n) => n.trim())
+    .filter(Boolean);
+  const unknown = names.filter((n) => !STEPS.some((step) => step.name === n));
+  if (!names.length || unknown.length) {
+    throw new Error(`--${name}: unknown step(s) ${unknown.join(', ') || '(none given)'}`);
+  }
+  return names;
+}
 
-    // STEP 7: Clean up temp files (keeps .keep for git)
-    runScript('cleanUp.ts');
+/**
+ * Works out which steps to run (and the options to run them with) from the command line, or
+ * from the previous run's manifest when resuming.
+ */
+function planRun(
+  argv: string[],
+  previous: RunManifest | null
+): {
+  selected: Set<string>;
+  options: PipelineOptions;
+  resumedFrom?: string;
+} {
+  const from = stepListFlag(argv, 'from');
+  const only = stepListFlag(argv, 'only');
+  const skip = stepListFlag(argv, 'skip');
+  const withOptional = stepListFlag(argv, 'with');
 
-    // STEP 8: Sync Scryfall images for missing imageUrls
-    runScript('syncScryfallImages.ts');
-  } catch (error) {
-    // If any step fails, log and exit with error
-    console.error(`[runDailySync.ts] Pipeline failed: ${error}`);
-    process.exit(1);
+  if (argv.includes('--resume')) {
+    if (from || only || skip || withOptional)
+      throw new Error('--resume cannot be combined with --from/--only/--skip/--with');
+    if (!previous) throw new Error(`Nothing to resume: no ${RUN_MANIFEST_FILE} in temp/`);
+    if (previous.status === 'succeeded') throw new Error(`Run ${previous.runId} already succeeded`);
+    const remaining = previous.steps.filter(
+      (s) => s.status !== 'succeeded' && s.status !== 'skipped'
+    );
+    return {
+      selected: new Set(remaining.map((s) => s.name)),
+      options: previous.options,
+      resumedFrom: previous.runId,
+    };
+  }
+
+  if (from && from.length > 1) throw new Error('--from takes a single step');
+  const start = from ? STEPS.findIndex((step) => step.name === from[0]) : 0;
+  const selected = STEPS.slice(start)
+    .filter(
+      (step) => !step.optional || only?.includes(step.name) || withOptional?.includes(step.name)
+    )
+    .map((step) => step.name)
+    .filter((name) => (!only || only.includes(name)) && (!skip || !skip.includes(name)));
+  return { selected: new Set(selected), options: parsePipelineOptions(argv) };
+}
+
+async function runAll() {
+  const argv = process.argv.slice(2);
+
+  if (argv.includes('--list')) {
+    STEPS.forEach((step, i) => {
+      const io = [
+        step.inputs.length ? `in: ${step.inputs.join(', ')}` : '',
+        step.outputs.length ? `out: ${step.outputs.join(', ')}` : '',
+        step.db ? `db: ${step.db}` : '',
+      ].filter(Boolean);
+      const optional = step.optional ? ' (optional)' : '';
+      console.log(`${String(i + 1).padStart(2)}. ${step.name} – ${step.description}${optional}`);
+      if (io.length) console.log(`      ${io.join(' | ')}`);
+    });
+    return;
   }
+
+  ensureDirExists(TEMP_DIR);
+  const previousManifest = readManifest();
+  const { selected, options, resumedFrom } = planRun(argv, previousManifest);
+  if (!selected.size) throw new Error('No steps selected');
+
+  const startedAt = new Date().toISOString();
+  const manifest: RunManifest = {
+    runId: startedAt.replace(/[:.]/g, '-'),
+    status: 'running',
+    startedAt,
+    resumedFrom,
+    options,
+    steps: STEPS.map((step) => ({
+      name: step.name,
+      status: selected.has(step.name) ? 'pending' : 'skipped',
+    })),
+  };
+  if (process.env.MONGO_URI) await connectDb();
+  await saveRun(manifest);
+  logInfo(
+    TAG,
+    `Run ${manifest.runId}${resumedFrom ? ` (resuming ${resumedFrom})` : ''}: ${Array.from(selected).join(', ')}`
+  );
+
+  for (const [i, step] of STEPS.entries()) {
+    const record = manifest.steps[i];
+    if (record.status === 'skipped') continue;
+
+    record.status = 'running';
+    record.startedAt = new Date().toISOString();
+    await saveRun(manifest);
+
+    try {
+      const missingInputs = missingFiles(step.inputs);
+      if (missingInputs.length) {
+        throw new Error(`missing input files in temp/: ${missingInputs.join(', ')}`);
+      }
+      if (step.db === 'required' || (step.db === 'optional' && process.env.MONGO_URI)) {
+        await connectDb();
+      }
+
+      logInfo(TAG, `Step ${step.name}: ${step.description}...`);
+      const counts = await step.run(options);
+      if (counts) record.counts = counts;
+
+      const missingOutputs = missingFiles(step.outputs);
+      if (missingOutputs.length) {
+        throw new Error(`did not write ${missingOutputs.join(', ')}`);
+      }
+      record.status = 'succeeded';
+    } catch (err: any) {
+      record.status = 'failed';
+      record.error = err?.message || String(err);
+      manifest.status = 'failed';
+      manifest.error = `${step.name}: ${record.error}`;
+      logError(TAG, `Step ${step.name} failed: ${err?.stack || err}`);
+    }
+
+    record.finishedAt = new Date().toISOString();
+    record.durationMs = elapsedMs(record.startedAt, record.finishedAt);
+    await saveRun(manifest);
+    if (record.status === 'failed') break;
+  }
+
+  if (manifest.status === 'running') manifest.status = 'succeeded';
+  manifest.finishedAt = new Date().toISOString();
+  manifest.durationMs = elapsedMs(manifest.startedAt, manifest.finishedAt);
+  await saveRun(manifest);
+  await reportRun(manifest, previousManifest);
+
+  if (manifest.status === 'failed') {
+    throw new Error(`stopped at ${manifest.error}; fix the cause and rerun with --resume`);
+  }
+  logInfo(TAG, `Run ${manifest.runId} finished`);
 }
 
 // Start pipeline when script is run
-runAll();
+runAll()
+  .then(() => mongoose.disconnect())
+  .catch(async (error) => {
+    // If any step fails, log and exit with error
+    logError(TAG, `Pipeline failed: ${error?.message || error}`);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
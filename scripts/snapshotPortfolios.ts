@@ -0,0 +1,61 @@
+/**
+ * Goblin Bookie – Portfolio Value Snapshots
+ *
+ * PURPOSE:
+ *   Values every portfolio against today's freshly uploaded prices and stores one
+ *   PortfolioSnapshot per portfolio per day, building the value-over-time history the
+ *   frontend charts.
+ *
+ * CONTEXT:
+ *   - Runs in the daily pipeline after uploadToMongo.ts (prices must be current).
+ *   - Uses the same valuation as GET /api/portfolios/:id (src/utils/portfolioValuation.ts).
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Snapshots are upserted on (portfolioId, date), so re-running on the same day is safe.
+ *   - Portfolios are streamed with a cursor, one at a time (memory-safe for many portfolios).
+ */
+
+import Portfolio from '../src/models/Portfolio';
+import PortfolioSnapshot from '../src/models/PortfolioSnapshot';
+import { valuePortfolio } from '../src/utils/portfolioValuation';
+import { logInfo } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone } from '../src/utils/pipeline';
+
+async function main() {
+  const date = new Date().toISOString().slice(0, 10);
+  logInfo('[snapshotPortfolios.ts]', `Snapshotting portfolio values for ${date}...`);
+
+  let count = 0;
+  for await (const portfolio of Portfolio.find().lean().cursor()) {
+    const { currency, totals } = await valuePortfolio(portfolio);
+    await PortfolioSnapshot.updateOne(
+      { portfolioId: portfolio._id, date },
+      {
+        $set: {
+          currency,
+          totalValue: totals.totalValue,
+          totalCost: totals.totalCost,
+          profitLoss: totals.profitLoss,
+          holdingsCount: totals.holdingsCount,
+          unpricedCount: totals.unpricedCount,
+          unconvertedCount: totals.unconvertedCount,
+        },
+      },
+      { upsert: true }
+    );
+    count++;
+  }
+
+  logInfo('[snapshotPortfolios.ts]', `Snapshot complete: ${count} portfolios valued`);
+}
+
+export const snapshotPortfoliosStep: PipelineStep = {
+  name: 'snapshotPortfolios',
+  description: 'Snapshot portfolio values',
+  inputs: [],
+  outputs: [],
+  db: 'required',
+  run: () => main(),
+};
+
+if (require.main === module) runStandalone(snapshotPortfoliosStep);
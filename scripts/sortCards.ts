@@ -6,15 +6,15 @@
  *   Ensures that card data is consistently ordered, which is critical for line-by-line streaming merges and updates.
  */
 
-import path from 'path';
 import sortNdjson from '../src/utils/sortNdjson';
+import { PipelineStep, runStandalone, tempPath } from '../src/utils/pipeline';
 
-const input = path.join(__dirname, '../temp/parsedCards.ndjson');
-const output = path.join(__dirname, '../temp/cardsSorted.ndjson');
+export const sortCardsStep: PipelineStep = {
+  name: 'sortCards',
+  description: 'Sort cards by UUID',
+  inputs: ['parsedCards.ndjson'],
+  outputs: ['cardsSorted.ndjson'],
+  run: () => sortNdjson(tempPath('parsedCards.ndjson'), tempPath('cardsSorted.ndjson')),
+};
 
-sortNdjson(input, output)
-  .then(() => console.log('[sortCards.ts] Cards sorted successfully.'))
-  .catch((err) => {
-    console.error('[sortCards.ts] Failed to sort cards:', err);
-    process.exit(1);
-  });
+if (require.main === module) runStandalone(sortCardsStep);
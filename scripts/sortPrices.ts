@@ -6,15 +6,15 @@
  *   This is essential for the next pipeline phase, which requires both card and price files to be sorted identically.
  */
 
-import path from 'path';
 import sortNdjson from '../src/utils/sortNdjson';
+import { PipelineStep, runStandalone, tempPath } from '../src/utils/pipeline';
 
-const input = path.join(__dirname, '../temp/parsedPrices.ndjson');
-const output = path.join(__dirname, '../temp/pricesSorted.ndjson');
+export const sortPricesStep: PipelineStep = {
+  name: 'sortPrices',
+  description: 'Sort prices by UUID',
+  inputs: ['parsedPrices.ndjson'],
+  outputs: ['pricesSorted.ndjson'],
+  run: () => sortNdjson(tempPath('parsedPrices.ndjson'), tempPath('pricesSorted.ndjson')),
+};
 
-sortNdjson(input, output)
-  .then(() => console.log('[sortPrices.ts] Prices sorted successfully.'))
-  .catch((err) => {
-    console.error('[sortPrices.ts] Failed to sort prices:', err);
-    process.exit(1);
-  });
+if (require.main === module) runStandalone(sortPricesStep);
@@ -7,7 +7,7 @@
  *   This step ensures every card in the Goblin Bookie database displays a real card image when available.
  *
  * IMPLEMENTATION DETAILS:
- *   - Connects to MongoDB using Mongoose and pulls cards missing `imageUrl` or with the placeholder image.
+ *   - Uses the pipeline's MongoDB connection and pulls cards missing `imageUrl` or with the placeholder image.
  *   - Fetches image data from Scryfall’s API using each card’s `scryfallId`.
  *   - Updates each card in the database with the fetched image URL (or resets to placeholder if not found).
  *   - Uses batching to process large collections efficiently without overloading memory or Scryfall’s rate limits.
@@ -15,11 +15,8 @@
  *   - Waits 100ms between API calls to avoid hitting Scryfall’s API rate limits.
  */
 
-import mongoose from 'mongoose';
-import dotenv from 'dotenv';
 import Card from '../src/models/Card'; // Adjust path if needed
-
-dotenv.config();
+import { PipelineStep, runStandalone } from '../src/utils/pipeline';
 
 const PLACEHOLDER_IMAGE = '/images/PlaceHolder.png';
 
@@ -49,8 +46,6 @@ async function getScryfallImageUrl(scryfallId: string): Promise<string | null> {
 }
 
 async function main() {
-  await mongoose.connect(process.env.MONGO_URI!, { dbName: 'goblin-bookie' });
-
   // Find all cards missing imageUrl or set to placeholder
   const query = {
     $or: [{ imageUrl: { $exists: false } }, { imageUrl: null }, { imageUrl: PLACEHOLDER_IMAGE }],
@@ -90,11 +85,15 @@ async function main() {
   } while (cards.length === batchSize); // Continue until all batches are processed
 
   console.log(`\nDone. Updated ${updated} cards with images.`);
-  await mongoose.disconnect();
-  process.exit(0);
 }
 
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
+export const syncScryfallImagesStep: PipelineStep = {
+  name: 'syncScryfallImages',
+  description: 'Sync Scryfall images',
+  inputs: [],
+  outputs: [],
+  db: 'required',
+  run: () => main(),
+};
+
+if (require.main === module) runStandalone(syncScryfallImagesStep);
@@ -0,0 +1,74 @@
+/**
+ * Goblin Bookie – Upload Set Metadata (SetList.json)
+ *
+ * PURPOSE:
+ *   Streams MTGJSON's SetList.json and upserts one CardSet document per set (code, name,
+ *   release date, type, size), giving the sets API real names and release dates.
+ *
+ * CONTEXT:
+ *   - SetList.json is downloaded alongside the other MTGJSON files by downloadJson.ts.
+ *   - Set metadata changes rarely; upserting the whole list daily keeps new sets appearing
+ *     automatically when their cards do.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Uses stream-json like the other parsers (no full-file JSON.parse).
+ *   - Upserts in a single bulkWrite at the end (the list is only a few hundred sets).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { chain } from 'stream-chain';
+import { parser } from 'stream-json';
+import { pick } from 'stream-json/filters/Pick';
+import { streamArray } from 'stream-json/streamers/StreamArray';
+import CardSet from '../src/models/CardSet';
+import { logInfo } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone } from '../src/utils/pipeline';
+
+const inputPath = path.join(__dirname, '../temp/SetList.json');
+
+async function main() {
+  logInfo('[uploadSets.ts]', 'Uploading set metadata from SetList.json');
+
+  const ops: any[] = [];
+  const pipeline = chain([
+    fs.createReadStream(inputPath),
+    parser(),
+    pick({ filter: 'data' }),
+    streamArray(),
+  ]);
+
+  for await (const { value } of pipeline) {
+    if (!value.code) continue;
+    ops.push({
+      updateOne: {
+        filter: { code: value.code },
+        update: {
+          $set: {
+            code: value.code,
+            name: value.name,
+            releaseDate: value.releaseDate,
+            type: value.type,
+            totalSetSize: value.totalSetSize,
+            isOnlineOnly: Boolean(value.isOnlineOnly),
+          },
+        },
+        upsert: true,
+      },
+    });
+  }
+
+  if (ops.length > 0) await CardSet.bulkWrite(ops);
+  logInfo('[uploadSets.ts]', `Set upload complete: ${ops.length} sets upserted`);
+}
+
+export const uploadSetsStep: PipelineStep = {
+  name: 'uploadSets',
+  description: 'Upload set metadata',
+  inputs: ['SetList.json'],
+  outputs: [],
+  db: 'required',
+  run: () => main(),
+};
+
+if (require.main === module) runStandalone(uploadSetsStep);
@@ -1,107 +1,100 @@
 /**
- * Goblin Bookie – Upload to MongoDB (Price Merge)
+ * Goblin Bookie – Upload to MongoDB (Cards + Price Points)
  *
  * PURPOSE:
- *   Streams mergedCards.ndjson and upserts each card into MongoDB, merging today’s price data
- *   into the card’s historical price history so nothing is lost. Ensures Goblin Bookie can build
- *   a growing, time-series price database for each card, and avoids memory bloat at every stage.
+ *   Streams validatedCards.ndjson (written by validatePrices.ts), upserts each card's metadata
+ *   into the Card collection, writes today's prices into the PricePoint collection (one document
+ *   per vendor/type/finish/date) and refreshes each card's precomputed price `summary`.
+ *   History accumulates in PricePoint day by day, so nothing is lost and card documents stay small.
  *
  * IMPLEMENTATION DETAILS:
- *   - Streams NDJSON, parses and buffers upsert operations (500 per batch for efficiency)
- *   - For each card, loads prior prices (if present), deep-merges new data in
+ *   - Quarantined prices were already removed by validatePrices.ts, so everything read here goes
+ *     into history
+ *   - Streams NDJSON, parses and buffers upsert operations (500 cards per batch for efficiency)
+ *   - Card metadata is `$set` as-is; the nested `prices` tree is flattened into price points
+ *   - Lines without prices (cards only, from a left/outer merge) just refresh metadata; lines
+ *     without card metadata (prices only, outer merge) store price points for existing cards but
+ *     never create a card
+ *   - Price points are upserted on their unique key, so re-running a day is idempotent and
+ *     no existing history has to be read or rewritten
+ *   - After each batch's points are stored, one aggregation reads each series' latest point and
+ *     its 7-/30-day baselines, and each card's `summary` is recomputed and `$set`
  *   - All writes are batched to minimize DB round trips (faster, safer for large datasets)
- *   - Disconnects from MongoDB only after all upserts and flushes
+ *   - Uses the pipeline's shared MongoDB connection (the 'goblin-bookie' database, same as the API)
  *   - Logs summary at the end
  */
 
 import fs from 'fs';
 import readline from 'readline';
-import dotenv from 'dotenv';
-import mongoose from 'mongoose';
 import Card from '../src/models/Card';
-import { logInfo, logError } from '../src/utils/jsonHelpers';
-
-dotenv.config();
-
-// Connect to MongoDB from your .env connection string
-mongoose
-  .connect(process.env.MONGO_URI!)
-  .then(() => logInfo('[uploadToMongo.ts]', 'MongoDB connected'));
+import PricePoint from '../src/models/PricePoint';
+import { logInfo } from '../src/utils/jsonHelpers';
+import { PipelineStep, runStandalone, tempPath } from '../src/utils/pipeline';
+import { flattenPriceTree, pricePointUpsert } from '../src/utils/priceHistory';
+import { refreshSummaries } from '../src/utils/priceSummary';
 
 /**
- * Deeply merge price objects so all previous price dates are kept and only today’s
- * prices are added or updated. Avoids overwriting any existing price history.
- * Makes a deep clone of the existing object to avoid accidental mutation.
- */
-function mergePriceObjects(existing: any = {}, incoming: any = {}): any {
-  const result = JSON.parse(JSON.stringify(existing || {}));
-  for (const vendor in incoming) {
-    if (!result[vendor]) result[vendor] = {};
-    for (const type in incoming[vendor]) {
-      if (!result[vendor][type]) result[vendor][type] = {};
-      for (const finish in incoming[vendor][type]) {
-        if (!result[vendor][type][finish]) result[vendor][type][finish] = {};
-        for (const date in incoming[vendor][type][finish]) {
-          result[vendor][type][finish][date] = incoming[vendor][type][finish][date];
-        }
-      }
-    }
-  }
-  return result;
-}
-
-/**
- * Reads card price data from NDJSON, merges with any existing prices in MongoDB,
- * and upserts the result back to the DB in batches (efficient, memory-safe).
- * Logs progress every 5000 cards processed.
+ * Reads validated card data from NDJSON, upserts card metadata and today's price points
+ * in batches (efficient, memory-safe).
  */
 async function uploadNDJSON(filePath: string) {
   const rl = readline.createInterface({ input: fs.createReadStream(filePath) });
-  const buffer: any[] = [];
+  const cardOps: any[] = [];
+  const priceOps: any[] = [];
+  const batchUuids: string[] = [];
   let total = 0;
+  let pointsWritten = 0;
   const batchSize = 500;
 
-  for await (const line of rl) {
-    const card = JSON.parse(line);
+  const flush = async () => {
+    if (cardOps.length > 0) await Card.bulkWrite(cardOps);
+    if (priceOps.length > 0) await PricePoint.bulkWrite(priceOps, { ordered: false });
+    await refreshSummaries(batchUuids);
+    total += cardOps.length;
+    pointsWritten += priceOps.length;
+    cardOps.length = 0;
+    priceOps.length = 0;
+    batchUuids.length = 0;
+  };
 
-    // Load existing prices from DB by uuid
-    const existing = await Card.findOne({ uuid: card.uuid }, { prices: 1 }).lean();
-
-    // Merge in today’s prices, preserving all historical data
-    const mergedPrices = mergePriceObjects(existing?.prices, card.prices);
-
-    const updatedCard = { ...card, prices: mergedPrices };
-
-    buffer.push({
-      updateOne: {
-        filter: { uuid: updatedCard.uuid },
-        update: { $set: updatedCard },
-        upsert: true,
-      },
-    });
+  for await (const line of rl) {
+    const { prices, ...card } = JSON.parse(line);
+    batchUuids.push(card.uuid);
 
-    // Batch upserts for efficiency (write every 500 records)
-    if (buffer.length >= batchSize) {
-      await Card.bulkWrite(buffer);
-      total += buffer.length;
-      buffer.length = 0;
+    if (card.name) {
+      cardOps.push({
+        updateOne: {
+          filter: { uuid: card.uuid },
+          update: { $set: card },
+          upsert: true,
+        },
+      });
     }
+    for (const point of flattenPriceTree(card.uuid, prices)) {
+      priceOps.push(pricePointUpsert(point));
+    }
+
+    // Batch upserts for efficiency (write every 500 cards)
+    if (batchUuids.length >= batchSize) await flush();
   }
 
   // Flush any remaining records
-  if (buffer.length > 0) {
-    await Card.bulkWrite(buffer);
-    total += buffer.length;
-  }
+  await flush();
 
   logInfo(
     '[uploadToMongo.ts]',
-    `Upload complete: ${total} cards inserted or updated (with merged price history)`
+    `Upload complete: ${total} cards inserted or updated, ${pointsWritten} price points written`
   );
-  mongoose.disconnect();
+  return { cards: total, pricePoints: pointsWritten };
 }
 
-// Start the upload; log any fatal errors at the very end
-uploadNDJSON('temp/mergedCards.ndjson').catch((err) =>
-  logError('[uploadToMongo.ts]', `Upload failed: ${err}`)
-);
+export const uploadToMongoStep: PipelineStep = {
+  name: 'uploadToMongo',
+  description: 'Upload cards and price points',
+  inputs: ['validatedCards.ndjson'],
+  outputs: [],
+  db: 'required',
+  run: () => uploadNDJSON(tempPath('validatedCards.ndjson')),
+};
+
+if (require.main === module) runStandalone(uploadToMongoStep);
@@ -0,0 +1,363 @@
+/**
+ * Goblin Bookie – Validate Prices (Outlier Quarantine)
+ *
+ * PURPOSE:
+ *   Checks every merged record before upload and holds back prices that look wrong, so a bad
+ *   MTGJSON day (a $20 card at $0.01 or $99,999) never reaches PricePoint history, summaries,
+ *   movers or alerts. Reads mergedCards.ndjson and writes validatedCards.ndjson, which
+ *   uploadToMongo.ts uploads.
+ *
+ * CONTEXT:
+ *   - Runs between mergeSortedNdjson and uploadToMongo in runDailySync.ts.
+ *   - Flagged points go into the QuarantinedPrice collection instead of history; admins review
+ *     them through `/api/admin/quarantine` (approve = add to history, reject = drop for good).
+ *
+ * CHECKS:
+ *   - Schema: every record must match MergedCardRecord (src/utils/recordSchemas.ts); records that
+ *     don't are logged and skipped.
+ *   - Jumps: each point is compared with the median of the same series (card/vendor/type/finish)
+ *     over the MEDIAN_WINDOW_DAYS before its date. A point more than PRICE_OUTLIER_FACTOR times
+ *     (default 5) above or below that median, and as far from the latest accepted price, is
+ *     quarantined. Series with fewer than MIN_HISTORY_POINTS points in the window (new cards) are
+ *     not checked.
+ *   - Sustained moves: the median only covers accepted history, so a card whose price really moved
+ *     would be flagged every day. When a flagged point is the SUSTAINED_MOVE_POINTS-th in a row of
+ *     its series to sit at the new level (the points pending since the last accepted one and this
+ *     one are all within PRICE_OUTLIER_FACTOR of each other), the move is accepted: the point
+ *     passes and the earlier pending points are approved automatically and uploaded with it.
+ *     From then on the latest accepted price sits at the new level, so later days pass.
+ *   - Backfills (--backfill) are only schema-checked: they reload dates history already has, or
+ *     dates too old to have a window before them.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Records are handled in batches of 500: one history query and one quarantine lookup per batch
+ *     (which also returns the window's pending points for the sustained-move check).
+ *   - A point already reviewed passes (approved) or is dropped (rejected) without being flagged
+ *     again; a point still pending is dropped and its quarantine entry refreshed.
+ *   - Cards whose every price was quarantined are still written without `prices`, so their
+ *     metadata is upserted.
+ */
+
+import fs from 'fs';
+import readline from 'readline';
+import QuarantinedPrice from '../src/models/QuarantinedPrice';
+import { logInfo, logError, waitForStreamFinish } from '../src/utils/jsonHelpers';
+import { PipelineOptions, PipelineStep, runStandalone, tempPath } from '../src/utils/pipeline';
+import { shiftDate } from '../src/utils/priceHelpers';
+import {
+  addToPriceTree,
+  flattenPriceTree,
+  loadPriceTrees,
+  PriceTree,
+} from '../src/utils/priceHistory';
+import { MergedCardRecord, validateMergedRecord } from '../src/utils/recordSchemas';
+
+const DEFAULT_OUTLIER_FACTOR = 5;
+const MEDIAN_WINDOW_DAYS = 30;
+const MIN_HISTORY_POINTS = 5;
+const SUSTAINED_MOVE_POINTS = 3;
+const BATCH_SIZE = 500;
+const MAX_LOGGED_INVALID = 20;
+
+export type Point = ReturnType<typeof flattenPriceTree>[number];
+type Counts = {
+  records: number;
+  invalid: number;
+  checked: number;
+  quarantined: number;
+  released: number;
+  approved: number;
+  rejected: number;
+};
+
+/** Outlier factor from PRICE_OUTLIER_FACTOR; throws unless it is a number above 1. */
+function outlierFactor(): number {
+  const value = process.env.PRICE_OUTLIER_FACTOR
+    ? Number(process.env.PRICE_OUTLIER_FACTOR)
+    : DEFAULT_OUTLIER_FACTOR;
+  if (!Number.isFinite(value) || value <= 1) {
+    throw new Error('PRICE_OUTLIER_FACTOR must be a number above 1');
+  }
+  return value;
+}
+
+const pointKey = (p: {
+  uuid: string;
+  vendor: string;
+  priceType: string;
+  finish: string;
+  date: string;
+}) => `${p.uuid}|${p.vendor}|${p.priceType}|${p.finish}|${p.date}`;
+
+const seriesKey = (p: { uuid: string; vendor: string; priceType: string; finish: string }) =>
+  `${p.uuid}|${p.vendor}|${p.priceType}|${p.finish}`;
+
+/** The dates of one series in a price tree (date -> price). */
+const seriesDates = (tree: PriceTree | undefined, p: Point): Record<string, number> =>
+  (tree?.[p.vendor] as any)?.[p.priceType]?.[p.finish] || {};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Compares one point with its series' recent median and latest accepted price. Returns why it
+ * looks wrong, or null when it looks fine or there isn't enough history to tell.
+ */
+export function checkPoint(
+  point: Point,
+  history: PriceTree | undefined,
+  factor: number
+): { reason: string; median: number } | null {
+  const dates = seriesDates(history, point);
+  const windowStart = shiftDate(point.date, -MEDIAN_WINDOW_DAYS);
+  const windowDates = Object.keys(dates)
+    .filter((date) => date >= windowStart && date < point.date)
+    .filter((date) => typeof dates[date] === 'number' && dates[date] > 0)
+    .sort();
+  if (windowDates.length < MIN_HISTORY_POINTS) return null;
+
+  const m = median(windowDates.map((date) => dates[date]));
+  const reason =
+    point.price > m * factor ? 'above median' : point.price < m / factor ? 'below median' : null;
+  if (!reason) return null;
+
+  // Close to the latest accepted price: the series already moved (e.g. a released sustained
+  // move) and the median hasn't caught up yet
+  const last = dates[windowDates[windowDates.length - 1]];
+  if (point.price <= last * factor && point.price >= last / factor) return null;
+  return { reason, median: m };
+}
+
+/**
+ * For a flagged point, checks whether its series has stayed at the new level: at least
+ * SUSTAINED_MOVE_POINTS - 1 points are pending since the last accepted one, and together with
+ * this point they are all within `factor` of each other. Returns those earlier
+ * pending points (to release with this one), or null when the move isn't sustained yet.
+ */
+export function sustainedMove(
+  point: Point,
+  history: PriceTree | undefined,
+  pending: Point[],
+  factor: number
+): Point[] | null {
+  const lastAccepted = Object.keys(seriesDates(history, point))
+    .filter((date) => date < point.date)
+    .reduce((a, b) => (a > b ? a : b), '');
+  const since = pending.filter((p) => p.date > lastAccepted && p.date < point.date);
+  if (since.length < SUSTAINED_MOVE_POINTS - 1) return null;
+
+  const prices = [point.price, ...since.map((p) => p.price)];
+  return Math.max(...prices) <= Math.min(...prices) * factor ? since : null;
+}
+
+/** Removes one point from a record's price tree, pruning branches left empty. */
+function removePoint(prices: any, point: Point) {
+  const finishes = prices[point.vendor][point.priceType];
+  delete finishes[point.finish][point.date];
+  if (!Object.keys(finishes[point.finish]).length) delete finishes[point.finish];
+  if (!Object.keys(finishes).length) delete prices[point.vendor][point.priceType];
+  if (!Object.keys(prices[point.vendor]).some((key) => key !== 'currency')) {
+    delete prices[point.vendor];
+  }
+}
+
+/**
+ * Checks one batch of records against history and earlier reviews, quarantines new outliers and
+ * returns the records to upload.
+ */
+async function validateBatch(
+  records: MergedCardRecord[],
+  options: PipelineOptions,
+  factor: number,
+  counts: Counts
+): Promise<MergedCardRecord[]> {
+  const points = records.flatMap((record) => flattenPriceTree(record.uuid, record.prices));
+  counts.checked += points.length;
+  if (!points.length) return records;
+
+  const uuids = records.filter((r) => r.prices).map((r) => r.uuid);
+  const dates = points.map((p) => p.date);
+  const earliest = dates.reduce((a, b) => (a < b ? a : b));
+  const latest = dates.reduce((a, b) => (a > b ? a : b));
+  const windowStart = options.backfill ? earliest : shiftDate(earliest, -MEDIAN_WINDOW_DAYS);
+
+  const reviewed = await QuarantinedPrice.find({
+    uuid: { $in: uuids },
+    date: { $gte: windowStart, $lte: latest },
+  })
+    .select('-_id uuid vendor priceType finish date price currency status')
+    .lean();
+  const statusByKey = new Map(reviewed.map((q) => [pointKey(q), q.status]));
+  const pendingBySeries = new Map<string, Point[]>();
+  for (const q of reviewed) {
+    if (q.status !== 'pending') continue;
+    const key = seriesKey(q);
+    if (!pendingBySeries.has(key)) pendingBySeries.set(key, []);
+    pendingBySeries.get(key)!.push(q as Point);
+  }
+
+  let history = new Map<string, PriceTree>();
+  if (!options.backfill) {
+    history = await loadPriceTrees(uuids, { since: windowStart });
+  }
+  const recordsByUuid = new Map(records.map((r) => [r.uuid, r]));
+
+  // One write per quarantine entry; a release overrides an earlier write for the same point
+  const ops = new Map<string, any>();
+  const dropped = new Map<string, Point[]>();
+  const releasedKeys = new Set<string>();
+  for (const point of points) {
+    if (releasedKeys.has(pointKey(point))) continue;
+    const status = statusByKey.get(pointKey(point));
+    if (status === 'approved') {
+      counts.approved++;
+      continue;
+    }
+    if (status === 'rejected') {
+      counts.rejected++;
+    } else {
+      const flag = options.backfill ? null : checkPoint(point, history.get(point.uuid), factor);
+      if (!flag && !status) continue;
+
+      const pending = pendingBySeries.get(seriesKey(point)) || [];
+      const released = flag && sustainedMove(point, history.get(point.uuid), pending, factor);
+      if (released) {
+        // The series stayed at its new level: accept the move, earlier pending points included
+        for (const earlier of status ? [...released, point] : released) {
+          const { uuid, vendor, priceType, finish, date } = earlier;
+          ops.set(pointKey(earlier), {
+            updateOne: {
+              filter: { uuid, vendor, priceType, finish, date },
+              update: { $set: { status: 'approved', autoApproved: true, reviewedAt: new Date() } },
+            },
+          });
+        }
+        for (const earlier of released) {
+          releasedKeys.add(pointKey(earlier));
+          addToPriceTree(recordsByUuid.get(point.uuid)!.prices as PriceTree, earlier);
+        }
+        counts.released += released.length + 1;
+        continue;
+      }
+
+      // New outlier, or a point still waiting for review
+      counts.quarantined++;
+      const { uuid, vendor, priceType, finish, date, price, currency } = point;
+      ops.set(pointKey(point), {
+        updateOne: {
+          filter: { uuid, vendor, priceType, finish, date },
+          update: {
+            $set: { price, currency, ...flag },
+            $setOnInsert: { status: 'pending', detectedAt: new Date() },
+          },
+          upsert: true,
+        },
+      });
+    }
+    if (!dropped.has(point.uuid)) dropped.set(point.uuid, []);
+    dropped.get(point.uuid)!.push(point);
+  }
+  if (ops.size) await QuarantinedPrice.bulkWrite(Array.from(ops.values()), { ordered: false });
+
+  return records.flatMap((record) => {
+    const held = dropped.get(record.uuid);
+    if (!held) return [record];
+    for (const point of held) {
+      if (!releasedKeys.has(pointKey(point))) removePoint(record.prices, point);
+    }
+    if (!Object.keys(record.prices!).length) delete record.prices;
+    // A price-only line left without prices has nothing to upload
+    return record.name || record.prices ? [record] : [];
+  });
+}
+
+/**
+ * Streams mergedCards.ndjson in batches, validating and quarantining as described above, and
+ * writes what passes to validatedCards.ndjson.
+ */
+async function validatePrices(inputFile: string, outputFile: string, options: PipelineOptions) {
+  const factor = outlierFactor();
+  logInfo(
+    '[validatePrices.ts]',
+    options.backfill
+      ? 'Backfill mode: checking record schemas only'
+      : `Quarantining prices more than ${factor}x away from their ${MEDIAN_WINDOW_DAYS}-day median`
+  );
+
+  const rl = readline.createInterface({
+    input: fs.createReadStream(inputFile),
+    crlfDelay: Infinity,
+  });
+  const output = fs.createWriteStream(outputFile, 'utf-8');
+  const counts: Counts = {
+    records: 0,
+    invalid: 0,
+    checked: 0,
+    quarantined: 0,
+    released: 0,
+    approved: 0,
+    rejected: 0,
+  };
+  const batch: MergedCardRecord[] = [];
+
+  const flush = async () => {
+    for (const record of await validateBatch(batch, options, factor, counts)) {
+      output.write(JSON.stringify(record) + '\n');
+    }
+    batch.length = 0;
+  };
+
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+    counts.records++;
+
+    let record: any;
+    let problems: string[];
+    try {
+      record = JSON.parse(line);
+      problems = validateMergedRecord(record);
+    } catch (err) {
+      problems = [`invalid JSON: ${err}`];
+    }
+    if (problems.length) {
+      if (++counts.invalid <= MAX_LOGGED_INVALID) {
+        logError(
+          '[validatePrices.ts]',
+          `Skipping invalid record ${record?.uuid ?? ''}: ${problems.join('; ')}`
+        );
+      }
+      continue;
+    }
+
+    batch.push(record);
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  output.end();
+  await waitForStreamFinish(output);
+
+  logInfo(
+    '[validatePrices.ts]',
+    `Validation complete: ${counts.records} records, ${counts.invalid} invalid, ` +
+      `${counts.checked} prices checked, ${counts.quarantined} quarantined, ` +
+      `${counts.released} released as sustained moves, ` +
+      `${counts.approved} previously approved, ${counts.rejected} previously rejected`
+  );
+  return counts;
+}
+
+export const validatePricesStep: PipelineStep = {
+  name: 'validatePrices',
+  description: 'Validate prices and quarantine outliers',
+  inputs: ['mergedCards.ndjson'],
+  outputs: ['validatedCards.ndjson'],
+  db: 'required',
+  run: (options) =>
+    validatePrices(tempPath('mergedCards.ndjson'), tempPath('validatedCards.ndjson'), options),
+};
+
+if (require.main === module) runStandalone(validatePricesStep);
@@ -15,6 +15,17 @@
  *   - Sets up CORS to allow cross-origin API calls from your frontend.
  *   - Configures Express to parse JSON bodies and serve static images from the /images directory.
  *   - All core card API logic is delegated to the `/routes/cards` router.
+ *   - Raw price history exports (one card, a set or a uuid list; CSV/JSON/NDJSON) are served by
+ *     `/routes/history`.
+ *   - Watchlist CRUD (price alerts) is handled by the `/routes/watchlists` router.
+ *   - Portfolio tracking (holdings, valuation, value history) is handled by `/routes/portfolios`.
+ *   - Market movers (top gainers/losers, precomputed daily) are served by `/routes/movers`.
+ *   - Set listing, set browsing and set value stats are served by `/routes/sets`.
+ *   - Cross-vendor arbitrage (precomputed daily) is served by `/routes/arbitrage`.
+ *   - Daily sync run history (status, step durations and counts) is served by `/routes/admin`;
+ *     the public "prices last updated" time by `/routes/syncStatus`.
+ *   - The vendor registry (ids, display names, currencies, price types, finishes) is served by
+ *     `/routes/vendors`.
  *   - Provides a `/health` endpoint for deployment health checks (used by Render/hosting providers).
  *   - Provides a `/ping` endpoint for simple liveness checks (manual or for uptime monitoring).
  *   - Uses Mongoose to connect to MongoDB and log connection status.
@@ -29,6 +40,15 @@ import cors = require('cors');
 import path from 'path';
 
 import cardsRouter from './routes/cards';
+import historyRouter from './routes/history';
+import watchlistsRouter from './routes/watchlists';
+import portfoliosRouter from './routes/portfolios';
+import moversRouter from './routes/movers';
+import setsRouter from './routes/sets';
+import arbitrageRouter from './routes/arbitrage';
+import adminRouter from './routes/admin';
+import syncStatusRouter from './routes/syncStatus';
+import vendorsRouter from './routes/vendors';
 
 dotenv.config();
 
@@ -42,6 +62,15 @@ app.use(cors());
 app.use(express.json());
 
 app.use('/api', cardsRouter);
+app.use('/api', historyRouter);
+app.use('/api', watchlistsRouter);
+app.use('/api', portfoliosRouter);
+app.use('/api', moversRouter);
+app.use('/api', setsRouter);
+app.use('/api', arbitrageRouter);
+app.use('/api', adminRouter);
+app.use('/api', syncStatusRouter);
+app.use('/api', vendorsRouter);
 
 // Health check endpoint for Render
 app.get('/health', (_req, res) => res.status(200).send('OK'));
@@ -0,0 +1,46 @@
+/**
+ * Goblin Bookie – Arbitrage Opportunity Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Precomputed cross-vendor spreads: cards where one vendor's buylist price beats another
+ *   vendor's retail price for the same finish (buy at one, sell to the other).
+ *
+ * CONTEXT:
+ *   - Fully rebuilt once per day by scripts/computeArbitrage.ts from each card's price summary.
+ *   - Read by GET /api/arbitrage; the endpoint never compares vendors at request time.
+ *
+ * FIELD OVERVIEW:
+ *   - uuid, name, setCode, imageUrl: Denormalized card info for display
+ *   - finish:     'normal', 'foil' or 'etched'
+ *   - buyVendor:  Vendor to buy from (retail)
+ *   - buyPrice:   That vendor's latest retail price
+ *   - sellVendor: Vendor to sell to (buylist)
+ *   - sellPrice:  That vendor's latest buylist price
+ *   - spread:     sellPrice - buyPrice
+ *   - spreadPct:  spread as % of buyPrice
+ *   - date:       Date of the older of the two prices compared (YYYY-MM-DD)
+ *   - computedAt: Timestamp of the run that built the row
+ */
+
+import mongoose from 'mongoose';
+
+const arbitrageOpportunitySchema = new mongoose.Schema({
+  uuid: { type: String, required: true },
+  name: String,
+  setCode: String,
+  imageUrl: String,
+  finish: { type: String, required: true },
+  buyVendor: String,
+  buyPrice: Number,
+  sellVendor: String,
+  sellPrice: Number,
+  spread: Number,
+  spreadPct: Number,
+  date: String,
+  computedAt: Date,
+});
+
+arbitrageOpportunitySchema.index({ spread: -1 });
+arbitrageOpportunitySchema.index({ spreadPct: -1 });
+
+export default mongoose.model('ArbitrageOpportunity', arbitrageOpportunitySchema);
@@ -3,7 +3,8 @@
  *
  * PURPOSE:
  *   Defines the MongoDB schema and Mongoose model for all Magic cards in the Goblin Bookie database.
- *   This schema captures all core card data, including prices, unique identifiers, and images.
+ *   This schema captures core card data: unique identifiers, metadata, purchase links and images.
+ *   Price history lives in the separate PricePoint collection (see PricePoint.ts).
  *
  * CONTEXT:
  *   - All card documents in the MongoDB collection conform to this structure.
@@ -11,31 +12,72 @@
  *   - Enables indexed, efficient access for searching cards by name, set, or UUID.
  *
  * IMPLEMENTATION DETAILS:
- *   - Uses flexible sub-schemas for pricing data to allow dynamic price points (e.g., per date).
- *   - `purchaseUrls` is stored as a Map of vendor name -> URL, supporting easy price lookups and link-outs.
+ *   - `purchaseUrls` is stored as MTGJSON's Map of purchase-link key -> URL; each vendor's key is in
+ *     the vendor registry (src/utils/vendors.ts, `purchaseUrlKey`).
  *   - Default value for `imageUrl` is a placeholder; later scripts update this with a Scryfall image.
- *   - Disables the `_id` field for subdocuments where not needed, for MongoDB storage efficiency.
+ *   - `summary` holds precomputed latest prices and % changes (see src/utils/priceSummary.ts), written at
+ *     upload time and indexed so list routes can sort/filter by price in the database.
+ *   - Price history was previously embedded as `prices.<vendor>.<type>.<finish>.<date>`; existing
+ *     documents are moved over by scripts/migratePriceHistory.ts.
  *
  * FIELD OVERVIEW:
  *   - uuid:         Primary unique identifier (MTGJSON UUID, required and unique)
  *   - name:         Card name (indexed for fast search)
+ *   - normalizedName: Lowercased name without accents/punctuation, for safe search (see nameSearch.ts)
  *   - setCode:      Set abbreviation (indexed)
- *   - language:     Language code (e.g., 'en')
+ *   - language:     MTGJSON language name (e.g., 'English', 'Japanese')
+ *   - printedName:  Localized name printed on non-English cards (`name` is always the English name)
  *   - scryfallId:   Scryfall UUID for image and API lookups
  *   - purchaseUrls: Map of vendor names to purchase URLs (e.g., TCGplayer, Card Kingdom, Cardmarket)
- *   - prices:       Nested pricing info for each vendor, with buylist/retail breakdown
  *   - imageUrl:     Path or URL to card image (placeholder by default)
+ *   - rarity:       'common', 'uncommon', 'rare', 'mythic', 'special' or 'bonus'
+ *   - colors:       Color letters (W, U, B, R, G); empty for colorless
+ *   - colorIdentity: Commander color identity letters
+ *   - typeLine:     Full type line (e.g., "Legendary Creature — Elf Druid")
+ *   - manaValue:    Converted mana cost
+ *   - oracleText:   Rules text
+ *   - collectorNumber: Collector number within the set (a string: "123a", "★12")
+ *   - artist:       Illustrator credit
+ *   - legalities:   Map of format -> 'legal' | 'banned' | 'restricted' (formats not listed are not legal)
+ *   - summary:      Precomputed price summary, all prices in `currency` (the USD base currency):
+ *       - date:            Most recent price date
+ *       - currency:        Currency of every price in the summary
+ *       - vendors:         Latest price per vendor/type/finish (converted from the vendor's currency),
+ *                          for every vendor in the registry that has one
+ *       - vendorDates:     Date of each of those prices (same shape), so readers can skip stale ones
+ *       - unconverted:     Latest native price per vendor/type/finish (plus the vendor's `currency`) for
+ *                          prices with no FX rate to convert them; not part of vendors or avg/low/high
+ *       - retail, buylist: Per finish: avg/low/high of the latest vendor prices, change7d, change30d (%)
  */
 
 import mongoose from 'mongoose';
+import { FINISHES, PRICE_TYPES } from '../utils/vendors';
 
-const pricePointsSchema = new mongoose.Schema({}, { strict: false });
+const finishSummarySchema = new mongoose.Schema(
+  {
+    avg: Number,
+    low: Number,
+    high: Number,
+    change7d: Number,
+    change30d: Number,
+  },
+  { _id: false }
+);
+
+// One finish summary per finish, one type summary per price type (see src/utils/vendors.ts)
+const typeSummarySchema = new mongoose.Schema(
+  Object.fromEntries(FINISHES.map((finish) => [finish, finishSummarySchema])),
+  { _id: false }
+);
 
-const priceListSchema = new mongoose.Schema(
+const priceSummarySchema = new mongoose.Schema(
   {
-    buylist: pricePointsSchema,
-    retail: pricePointsSchema,
+    date: String,
     currency: String,
+    vendors: mongoose.Schema.Types.Mixed,
+    vendorDates: mongoose.Schema.Types.Mixed,
+    unconverted: mongoose.Schema.Types.Mixed,
+    ...Object.fromEntries(PRICE_TYPES.map((type) => [type, typeSummarySchema])),
   },
   { _id: false }
 );
@@ -43,16 +85,37 @@ const priceListSchema = new mongoose.Schema(
 const cardSchema = new mongoose.Schema({
   uuid: { type: String, required: true, unique: true },
   name: { type: String, index: true },
+  normalizedName: { type: String, index: true },
   setCode: { type: String, index: true },
-  language: String,
+  language: { type: String, index: true },
+  printedName: String,
   scryfallId: String,
   purchaseUrls: { type: Map, of: String },
-  prices: {
-    tcgplayer: priceListSchema,
-    cardkingdom: priceListSchema,
-    cardmarket: priceListSchema,
-  },
   imageUrl: { type: String, default: '/images/PlaceHolder.png' },
+  rarity: String,
+  colors: [String],
+  colorIdentity: [String],
+  typeLine: String,
+  manaValue: Number,
+  oracleText: String,
+  collectorNumber: String,
+  artist: String,
+  legalities: { type: Map, of: String },
+  summary: priceSummarySchema,
 });
 
+// Browse a set in name order (set filter + default name sort)
+cardSchema.index({ setCode: 1, name: 1 });
+
+// Other-language versions of a printing (same set and collector number)
+cardSchema.index({ setCode: 1, collectorNumber: 1 });
+
+// Most selective metadata filters (e.g. "rare green cards")
+cardSchema.index({ rarity: 1, colors: 1 });
+
+// Sort/filter by the most common price fields without touching price history
+cardSchema.index({ 'summary.retail.normal.avg': 1 });
+cardSchema.index({ 'summary.buylist.normal.avg': 1 });
+cardSchema.index({ 'summary.retail.normal.change7d': 1 });
+
 export default mongoose.model('Card', cardSchema);
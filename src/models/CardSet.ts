@@ -0,0 +1,32 @@
+/**
+ * Goblin Bookie – Card Set Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Stores MTGJSON set metadata (name, release date, type) so the sets API can show real set
+ *   names and sort sets by release date. Cards reference sets by `Card.setCode`.
+ *
+ * CONTEXT:
+ *   - Upserted daily by scripts/uploadSets.ts from MTGJSON's SetList.json.
+ *   - Read by the /api/sets routes, which join it with per-set card counts and price stats.
+ *
+ * FIELD OVERVIEW:
+ *   - code:         Set code (matches Card.setCode, unique)
+ *   - name:         Set name (e.g. "Modern Horizons 3")
+ *   - releaseDate:  Release date (YYYY-MM-DD)
+ *   - type:         MTGJSON set type (expansion, core, masters, commander, ...)
+ *   - totalSetSize: Number of cards in the set, including extras
+ *   - isOnlineOnly: True for digital-only sets
+ */
+
+import mongoose from 'mongoose';
+
+const cardSetSchema = new mongoose.Schema({
+  code: { type: String, required: true, unique: true },
+  name: String,
+  releaseDate: { type: String, index: true },
+  type: { type: String },
+  totalSetSize: Number,
+  isOnlineOnly: Boolean,
+});
+
+export default mongoose.model('CardSet', cardSetSchema);
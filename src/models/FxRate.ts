@@ -0,0 +1,26 @@
+/**
+ * Goblin Bookie – FX Rate Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Dated foreign-exchange rates used to convert vendor prices into a common currency before
+ *   they are averaged or compared (cardmarket reports EUR, tcgplayer/cardkingdom report USD).
+ *
+ * CONTEXT:
+ *   - Loaded from a local JSON file by scripts/loadFxRates.ts (no external FX API is called).
+ *   - Read through src/utils/currency.ts, which picks the latest rate on or before a price's date.
+ *
+ * FIELD OVERVIEW:
+ *   - date:  Rate date (YYYY-MM-DD, unique)
+ *   - base:  Base currency of the rates (always 'USD')
+ *   - rates: Units of each currency per 1 base unit, e.g. { EUR: 0.92 }
+ */
+
+import mongoose from 'mongoose';
+
+const fxRateSchema = new mongoose.Schema({
+  date: { type: String, required: true, unique: true },
+  base: { type: String, default: 'USD' },
+  rates: { type: Map, of: Number },
+});
+
+export default mongoose.model('FxRate', fxRateSchema);
@@ -0,0 +1,48 @@
+/**
+ * Goblin Bookie – Market Mover Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Precomputed price changes for every priced card, per window/price type/finish, so the
+ *   /api/movers endpoint can answer "what spiked this week?" with a single indexed query
+ *   instead of scanning every card's price history.
+ *
+ * CONTEXT:
+ *   - Fully rebuilt once per day by scripts/computeMovers.ts after prices are uploaded.
+ *   - Each document is one (card, window, priceType, finish) combination.
+ *   - changePct is the average of each vendor's own % change (like Card.summary change7d/30d),
+ *     over vendors priced on both dates; prices average those vendors, in USD.
+ *
+ * FIELD OVERVIEW:
+ *   - uuid, name, setCode, imageUrl: Denormalized card info for display
+ *   - window:        '1d', '7d' or '30d'
+ *   - priceType:     'retail' or 'buylist'
+ *   - finish:        'normal', 'foil' or 'etched'
+ *   - price:         Average latest price of the compared vendors
+ *   - previousPrice: Their average price at the start of the window
+ *   - changePct:     Average per-vendor % change over the window
+ *   - date:          Date of the latest price (YYYY-MM-DD)
+ *   - computedAt:    Timestamp of the run that built the row
+ */
+
+import mongoose from 'mongoose';
+import { PRICE_TYPES } from '../utils/vendors';
+
+const marketMoverSchema = new mongoose.Schema({
+  uuid: { type: String, required: true },
+  name: String,
+  setCode: String,
+  imageUrl: String,
+  window: { type: String, enum: ['1d', '7d', '30d'], required: true },
+  priceType: { type: String, enum: PRICE_TYPES, required: true },
+  finish: { type: String, required: true },
+  price: Number,
+  previousPrice: Number,
+  changePct: Number,
+  date: String,
+  computedAt: Date,
+});
+
+// Serves the movers query: equality on window/type/finish, then sorted by change
+marketMoverSchema.index({ window: 1, priceType: 1, finish: 1, changePct: -1 });
+
+export default mongoose.model('MarketMover', marketMoverSchema);
@@ -0,0 +1,50 @@
+/**
+ * Goblin Bookie – Portfolio Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Stores a collection/inventory of cards ("holdings") so the API can report its current value
+ *   and profit/loss, and the daily sync can record value snapshots over time.
+ *
+ * CONTEXT:
+ *   - Managed through the /api/portfolios routes.
+ *   - Valued with the same latest-price-per-vendor logic as the card detail endpoint
+ *     (see src/utils/portfolioValuation.ts).
+ *   - Daily value history lives in the separate PortfolioSnapshot collection.
+ *
+ * FIELD OVERVIEW:
+ *   - name:     Portfolio display name
+ *   - owner:    Optional owner/team label (indexed for filtering)
+ *   - currency: Currency acquisition prices are entered in, and the default valuation currency
+ *   - holdings: One entry per card/finish lot, with:
+ *       - uuid:             Card UUID (MTGJSON)
+ *       - quantity:         Number of copies held
+ *       - finish:           'normal', 'foil' or 'etched'
+ *       - acquisitionPrice: Price paid per copy (optional; P/L is null without it)
+ *       - acquiredAt:       When the lot was acquired
+ *       - notes:            Free-form notes (condition, location, ...)
+ */
+
+import mongoose from 'mongoose';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../utils/currency';
+import { FINISHES } from '../utils/vendors';
+
+const holdingSchema = new mongoose.Schema({
+  uuid: { type: String, required: true },
+  quantity: { type: Number, required: true, min: 1, default: 1 },
+  finish: { type: String, enum: FINISHES, default: 'normal' },
+  acquisitionPrice: { type: Number, min: 0 },
+  acquiredAt: Date,
+  notes: String,
+});
+
+const portfolioSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true },
+    owner: { type: String, index: true },
+    currency: { type: String, enum: SUPPORTED_CURRENCIES, default: BASE_CURRENCY },
+    holdings: [holdingSchema],
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model('Portfolio', portfolioSchema);
@@ -0,0 +1,42 @@
+/**
+ * Goblin Bookie – Portfolio Snapshot Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   One document per portfolio per day, recording what the portfolio was worth after that day's
+ *   price sync. Lets the frontend chart a collection's value over time.
+ *
+ * CONTEXT:
+ *   - Written by scripts/snapshotPortfolios.ts during the daily sync.
+ *   - Read by GET /api/portfolios/:id/history.
+ *   - Unique on (portfolioId, date), so re-running the sync on the same day just overwrites.
+ *
+ * FIELD OVERVIEW:
+ *   - portfolioId:   Portfolio this snapshot belongs to
+ *   - date:          Snapshot date (YYYY-MM-DD)
+ *   - currency:      Currency of the value fields (the portfolio's currency at snapshot time)
+ *   - totalValue:    Sum of current value across all priced holdings
+ *   - totalCost:     Sum of acquisition cost across holdings that have one
+ *   - profitLoss:    totalValue - totalCost over holdings with both a price and a cost
+ *   - holdingsCount: Number of holdings at snapshot time
+ *   - unpricedCount: Holdings with no current price (excluded from totalValue)
+ *   - unconvertedCount: Holdings priced only in a currency with no FX rate (excluded from every
+ *                    total)
+ */
+
+import mongoose from 'mongoose';
+
+const portfolioSnapshotSchema = new mongoose.Schema({
+  portfolioId: { type: mongoose.Schema.Types.ObjectId, ref: 'Portfolio', required: true },
+  date: { type: String, required: true },
+  currency: { type: String, default: 'USD' },
+  totalValue: Number,
+  totalCost: Number,
+  profitLoss: Number,
+  holdingsCount: Number,
+  unpricedCount: Number,
+  unconvertedCount: Number,
+});
+
+portfolioSnapshotSchema.index({ portfolioId: 1, date: 1 }, { unique: true });
+
+export default mongoose.model('PortfolioSnapshot', portfolioSnapshotSchema);
@@ -0,0 +1,36 @@
+/**
+ * Goblin Bookie – Price Compaction Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Records which date ranges of the PricePoint history have been downsampled, and how much each
+ *   compaction removed, so old history can be thinned without losing track of what happened.
+ *
+ * CONTEXT:
+ *   - Written by scripts/compactPrices.ts (an optional pipeline step); a range already recorded
+ *     at a granularity is skipped on later runs, so each run only scans newly eligible ranges.
+ *   - Dry runs are never recorded.
+ *
+ * FIELD OVERVIEW:
+ *   - granularity:   'weekly' or 'monthly' (the bucket size the range was reduced to)
+ *   - start, end:    Range covered, YYYY-MM-DD (start inclusive, end exclusive)
+ *   - series:        Price series (card/vendor/type/finish) that had points removed
+ *   - pointsRemoved: PricePoint documents deleted
+ *   - bytesRemoved:  Approximate BSON size of the deleted documents
+ *   - compactedAt:   When the range was compacted
+ */
+
+import mongoose from 'mongoose';
+
+const priceCompactionSchema = new mongoose.Schema({
+  granularity: { type: String, enum: ['weekly', 'monthly'], required: true },
+  start: { type: String, required: true },
+  end: { type: String, required: true },
+  series: { type: Number, default: 0 },
+  pointsRemoved: { type: Number, default: 0 },
+  bytesRemoved: { type: Number, default: 0 },
+  compactedAt: { type: Date, default: Date.now },
+});
+
+priceCompactionSchema.index({ granularity: 1, start: 1 }, { unique: true });
+
+export default mongoose.model('PriceCompaction', priceCompactionSchema);
@@ -0,0 +1,42 @@
+/**
+ * Goblin Bookie – Price Gap Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Records holes in the stored price history so the next pipeline run can fill them from
+ *   AllPrices.json (which carries ~90 days of history) instead of losing those dates for good.
+ *
+ * CONTEXT:
+ *   - Written by scripts/detectPriceGaps.ts after each upload; read by scripts/parsePrices.ts,
+ *     which adds the missing dates/cards to its output.
+ *   - A gap still open after MAX_FILL_ATTEMPTS fill attempts is kept for reporting but no longer
+ *     requested (AllPrices doesn't have that data either, e.g. a delisted card).
+ *
+ * FIELD OVERVIEW:
+ *   - kind:       'date' (a day with few or no prices for any card) or 'card' (one card behind the
+ *                 latest stored date)
+ *   - date:       Missing date (kind 'date')
+ *   - uuid:       Card UUID (kind 'card')
+ *   - since:      For card gaps, the card's latest stored price date
+ *   - attempts:   Times the gap was found open (the run after each detection tries to fill it);
+ *                 card gaps only count runs that downloaded the full AllPrices.json
+ *   - detectedAt: When the gap was first seen
+ *   - checkedAt:  Last detection run that still found it open
+ */
+
+import mongoose from 'mongoose';
+
+export const MAX_FILL_ATTEMPTS = 3;
+
+const priceGapSchema = new mongoose.Schema({
+  kind: { type: String, enum: ['date', 'card'], required: true },
+  date: String,
+  uuid: String,
+  since: String,
+  attempts: { type: Number, default: 0 },
+  detectedAt: { type: Date, default: Date.now },
+  checkedAt: Date,
+});
+
+priceGapSchema.index({ kind: 1, date: 1, uuid: 1 }, { unique: true });
+
+export default mongoose.model('PriceGap', priceGapSchema);
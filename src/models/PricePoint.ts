@@ -0,0 +1,49 @@
+/**
+ * Goblin Bookie – Price Point Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Stores card price history as one document per price point, keyed by
+ *   uuid / vendor / priceType / finish / date. Replaces the old embedded
+ *   `Card.prices.<vendor>.<type>.<finish>.<date>` maps, which grew without limit and forced every
+ *   request to load a card's entire history.
+ *
+ * CONTEXT:
+ *   - Written by scripts/uploadToMongo.ts (daily) and scripts/migratePriceHistory.ts (one-time move
+ *     of the embedded history).
+ *   - Read by the card routes and pipeline scripts through src/utils/priceHistory.ts, which can
+ *     limit reads to a date range instead of the full history.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - A regular collection (not a MongoDB time-series collection) so the compound key can be
+ *     enforced with a unique index: daily uploads and migration re-runs upsert idempotently.
+ *   - Dates are ISO 8601 strings (YYYY-MM-DD), same as MTGJSON, so lexical order is chronological.
+ *
+ * FIELD OVERVIEW:
+ *   - uuid:      Card UUID (MTGJSON)
+ *   - vendor:    Vendor id from the registry (src/utils/vendors.ts), e.g. 'tcgplayer'
+ *   - priceType: 'retail' or 'buylist'
+ *   - finish:    'normal', 'foil' or 'etched'
+ *   - date:      Price date (YYYY-MM-DD)
+ *   - price:     Price on that date, in `currency`
+ *   - currency:  ISO currency code from MTGJSON (e.g. 'USD' for tcgplayer, 'EUR' for cardmarket)
+ */
+
+import mongoose from 'mongoose';
+import { PRICE_TYPES } from '../utils/vendors';
+
+const pricePointSchema = new mongoose.Schema({
+  uuid: { type: String, required: true },
+  vendor: { type: String, required: true },
+  priceType: { type: String, enum: PRICE_TYPES, required: true },
+  finish: { type: String, required: true },
+  date: { type: String, required: true },
+  price: { type: Number, required: true },
+  currency: String,
+});
+
+// One point per key; also serves "all points for a card (in a date range)" lookups
+pricePointSchema.index({ uuid: 1, vendor: 1, priceType: 1, finish: 1, date: 1 }, { unique: true });
+// Serves date-range scans across all cards (e.g. the last 30 days for movers)
+pricePointSchema.index({ date: 1 });
+
+export default mongoose.model('PricePoint', pricePointSchema);
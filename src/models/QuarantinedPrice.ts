@@ -0,0 +1,54 @@
+/**
+ * Goblin Bookie – Quarantined Price Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Holds incoming price points that looked wrong (e.g. a $20 card suddenly listed at $0.01 or
+ *   $99,999) so they can be reviewed before they reach PricePoint history and skew summaries,
+ *   movers and alerts.
+ *
+ * CONTEXT:
+ *   - Written by scripts/validatePrices.ts, which runs between the merge and the upload.
+ *   - Reviewed through `/api/admin/quarantine`: approving a point writes it into PricePoint and
+ *     refreshes the card's summary; rejecting it keeps it out for good (later runs that see the
+ *     same point drop it without quarantining it again).
+ *
+ * FIELD OVERVIEW:
+ *   - uuid, vendor, priceType, finish, date: The point's key (same as PricePoint)
+ *   - price, currency: The incoming value, in the vendor's currency
+ *   - median:     Median of the series over the recent window the point was compared with
+ *   - reason:     Why it was flagged ('above median', 'below median')
+ *   - status:     'pending' | 'approved' | 'rejected'
+ *   - detectedAt: When the point was first quarantined
+ *   - reviewedAt: When it was approved or rejected
+ *   - autoApproved: True when the pipeline approved it because the series stayed at the new level
+ *                 (a sustained move, see scripts/validatePrices.ts) rather than an admin
+ */
+
+import mongoose from 'mongoose';
+import { PRICE_TYPES } from '../utils/vendors';
+
+export const QUARANTINE_STATUSES = ['pending', 'approved', 'rejected'];
+
+const quarantinedPriceSchema = new mongoose.Schema({
+  uuid: { type: String, required: true },
+  vendor: { type: String, required: true },
+  priceType: { type: String, enum: PRICE_TYPES, required: true },
+  finish: { type: String, required: true },
+  date: { type: String, required: true },
+  price: { type: Number, required: true },
+  currency: String,
+  median: Number,
+  reason: String,
+  status: { type: String, enum: QUARANTINE_STATUSES, default: 'pending' },
+  detectedAt: { type: Date, default: Date.now },
+  reviewedAt: Date,
+  autoApproved: Boolean,
+});
+
+quarantinedPriceSchema.index(
+  { uuid: 1, vendor: 1, priceType: 1, finish: 1, date: 1 },
+  { unique: true }
+);
+quarantinedPriceSchema.index({ status: 1, detectedAt: -1 });
+
+export default mongoose.model('QuarantinedPrice', quarantinedPriceSchema);
@@ -0,0 +1,61 @@
+/**
+ * Goblin Bookie – Sync Run Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   History of daily sync pipeline runs, so the API can report when prices were last updated and
+ *   failed runs are visible without digging through logs/sync.log.
+ *
+ * CONTEXT:
+ *   - Written by scripts/runDailySync.ts as the run progresses (the same record it keeps in
+ *     temp/runManifest.json); served by the /api/admin/sync-runs routes and, for the last
+ *     successful finish time only, the public /api/sync-status.
+ *   - Runs started with MONGO_URI unset are only recorded in the local manifest.
+ *
+ * FIELD OVERVIEW:
+ *   - runId:       Run identifier (start timestamp)
+ *   - status:      'running', 'succeeded' or 'failed'
+ *   - startedAt, finishedAt, durationMs: Run timing
+ *   - resumedFrom: runId of the failed run this one resumed (--resume)
+ *   - options:     Backfill options the run used
+ *   - steps:       Every pipeline step with its status ('pending', 'running', 'succeeded',
+ *                  'failed', 'skipped'), timing, counts reported by the step (e.g. total/kept
+ *                  entries) and error
+ *   - error:       Why the run failed (step name and message)
+ */
+
+import mongoose from 'mongoose';
+
+const syncStepSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'running', 'succeeded', 'failed', 'skipped'],
+      required: true,
+    },
+    startedAt: Date,
+    finishedAt: Date,
+    durationMs: Number,
+    counts: { type: Map, of: Number },
+    error: String,
+  },
+  { _id: false }
+);
+
+const syncRunSchema = new mongoose.Schema({
+  runId: { type: String, required: true, unique: true },
+  status: { type: String, enum: ['running', 'succeeded', 'failed'], required: true },
+  startedAt: { type: Date, required: true, index: true },
+  finishedAt: Date,
+  durationMs: Number,
+  resumedFrom: String,
+  options: {
+    backfill: Boolean,
+    since: String,
+    until: String,
+  },
+  steps: [syncStepSchema],
+  error: String,
+});
+
+export default mongoose.model('SyncRun', syncRunSchema);
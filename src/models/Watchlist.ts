@@ -0,0 +1,65 @@
+/**
+ * Goblin Bookie – Watchlist Model (Mongoose Schema)
+ *
+ * PURPOSE:
+ *   Stores price watchlists: named groups of card price rules that email a recipient when a
+ *   card's price crosses a threshold (e.g. "retail normal under $5", "buylist up 20% in 7 days").
+ *
+ * CONTEXT:
+ *   - Managed through the /api/watchlists routes.
+ *   - Evaluated once per day by scripts/evaluateAlerts.ts, right after uploadToMongo.ts.
+ *
+ * FIELD OVERVIEW:
+ *   - name:  Display name for the watchlist
+ *   - email: Alert recipient (falls back to EMAIL_TO when empty)
+ *   - emailConfirmed: Whether an admin confirmed `email` via
+ *                     POST /api/admin/watchlists/:id/confirm-email. Alerts are only mailed to
+ *                     confirmed addresses, so the public watchlist API can't be used to send mail
+ *                     to arbitrary people. Reset whenever `email` changes.
+ *   - items: Watch rules, each with:
+ *       - uuid:            Card UUID to watch
+ *       - vendor:          Vendor to watch (null = average of all vendors)
+ *       - priceType:       'retail' or 'buylist'
+ *       - finish:          'normal', 'foil' or 'etched'
+ *       - condition:       'below' / 'above' (threshold in `currency`) or
+ *                          'changeUp' / 'changeDown' (threshold in percent over windowDays)
+ *       - threshold:       Price or percentage, depending on condition
+ *       - currency:        One of SUPPORTED_CURRENCIES; prices are converted into it first
+ *       - windowDays:      Look-back window for change conditions (default 7)
+ *       - lastTriggeredAt: When the rule last produced an alert
+ *       - lastTriggeredDate: Price date (YYYY-MM-DD) of that alert; the rule won't fire again
+ *                          until its condition crosses again after that date
+ */
+
+import mongoose from 'mongoose';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../utils/currency';
+import { FINISHES, PRICE_TYPES, VENDOR_IDS } from '../utils/vendors';
+
+const watchItemSchema = new mongoose.Schema({
+  uuid: { type: String, required: true },
+  vendor: { type: String, enum: [...VENDOR_IDS, null], default: null },
+  priceType: { type: String, enum: PRICE_TYPES, default: 'retail' },
+  finish: { type: String, enum: FINISHES, default: 'normal' },
+  condition: {
+    type: String,
+    enum: ['below', 'above', 'changeUp', 'changeDown'],
+    required: true,
+  },
+  threshold: { type: Number, required: true, min: 0 },
+  currency: { type: String, enum: SUPPORTED_CURRENCIES, default: BASE_CURRENCY },
+  windowDays: { type: Number, default: 7, min: 1 },
+  lastTriggeredAt: Date,
+  lastTriggeredDate: String,
+});
+
+const watchlistSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true },
+    email: { type: String, index: true },
+    emailConfirmed: { type: Boolean, default: false },
+    items: [watchItemSchema],
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model('Watchlist', watchlistSchema);
@@ -0,0 +1,251 @@
+/**
+ * Goblin Bookie – Admin API Routes
+ *
+ * - `/api/admin/sync-runs`        : Recent daily sync runs, newest first
+ * - `/api/admin/sync-runs/latest` : The most recent run (or the most recent successful one)
+ * - `/api/admin/quarantine`       : Price points held back by the pipeline's outlier check
+ * - `/api/admin/quarantine/:id/approve`, `/reject` : Review a quarantined point
+ * - `/api/admin/watchlists/:id/confirm-email`     : Allow a watchlist's email to receive alerts
+ *
+ * Key Details:
+ * - Every `/api/admin/*` route requires the ADMIN_TOKEN (`Authorization: Bearer <token>` or an
+ *   `X-Admin-Token` header); requests without it get a 401. With no ADMIN_TOKEN set, the admin
+ *   API is closed.
+ * - Backed by the SyncRun collection, which scripts/runDailySync.ts keeps up to date while a run
+ *   progresses, so a run in progress shows up with status 'running'.
+ * - Each run lists every pipeline step with its status, duration, reported counts
+ *   (e.g. parseCards total/kept) and error.
+ * - For "prices last updated at …" the frontend uses the public `/api/sync-status`
+ *   (src/routes/syncStatus.ts), which exposes only the last successful run's finish time.
+ * - Quarantined points come from scripts/validatePrices.ts (QuarantinedPrice collection).
+ *   Approving one writes it into PricePoint history and refreshes the card's summary; rejecting
+ *   one keeps it out (and removes it from history if it had been approved). Points the pipeline
+ *   released as part of a sustained price move are listed as approved with `autoApproved: true`.
+ */
+
+import express from 'express';
+import mongoose from 'mongoose';
+import Card from '../models/Card';
+import PricePoint from '../models/PricePoint';
+import QuarantinedPrice, { QUARANTINE_STATUSES } from '../models/QuarantinedPrice';
+import SyncRun from '../models/SyncRun';
+import Watchlist from '../models/Watchlist';
+import { pricePointUpsert } from '../utils/priceHistory';
+import { refreshSummaries } from '../utils/priceSummary';
+import { handleRouteError, requireAdmin } from '../utils/routeHelpers';
+
+const router = express.Router();
+
+router.use('/admin', requireAdmin);
+
+const STATUSES = ['running', 'succeeded', 'failed'];
+const MAX_LIMIT = 100;
+
+/** Validates an optional `?status=` filter; returns the Mongo filter or an error message. */
+function statusFilter(status: unknown): { filter: Record<string, string>; error?: string } {
+  if (status === undefined) return { filter: {} };
+  if (typeof status !== 'string' || !STATUSES.includes(status)) {
+    return { filter: {}, error: `status must be one of: ${STATUSES.join(', ')}` };
+  }
+  return { filter: { status } };
+}
+
+/**
+ * GET /api/admin/sync-runs
+ *
+ * Query params (all optional):
+ *   - status: 'running' | 'succeeded' | 'failed'
+ *   - limit:  Max runs, up to 100 (default 20)
+ */
+router.get('/admin/sync-runs', async (req, res) => {
+  try {
+    const limit = Math.max(1, Math.min(parseInt(req.query.limit as string) || 20, MAX_LIMIT));
+    const { filter, error } = statusFilter(req.query.status);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const runs = await SyncRun.find(filter)
+      .sort({ startedAt: -1 })
+      .limit(limit)
+      .select('-_id -__v')
+      .lean();
+
+    res.json(runs);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching sync runs.');
+  }
+});
+
+/**
+ * GET /api/admin/sync-runs/latest
+ *
+ * Query params (optional):
+ *   - status: 'running' | 'succeeded' | 'failed' – latest run with this status
+ *
+ * Returns 404 if no matching run has been recorded yet.
+ */
+router.get('/admin/sync-runs/latest', async (req, res) => {
+  try {
+    const { filter, error } = statusFilter(req.query.status);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const run = await SyncRun.findOne(filter).sort({ startedAt: -1 }).select('-_id -__v').lean();
+    if (!run) {
+      return res.status(404).json({ error: 'No sync runs recorded yet.' });
+    }
+
+    res.json(run);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching the latest sync run.');
+  }
+});
+
+/**
+ * GET /api/admin/quarantine
+ *
+ * Query params (all optional):
+ *   - status:      'pending' | 'approved' | 'rejected' (default 'pending')
+ *   - uuid:        Only points for this card
+ *   - page, limit: Pagination (limit up to 100, default 20)
+ *
+ * Returns { results, total, page, limit, totalPages }, newest first; each result is the
+ * quarantined point (price in its vendor's currency, with the median it was compared with) plus
+ * the card's name and setCode.
+ */
+router.get('/admin/quarantine', async (req, res) => {
+  try {
+    const status = (req.query.status as string) || 'pending';
+    const limit = Math.max(1, Math.min(parseInt(req.query.limit as string) || 20, MAX_LIMIT));
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    if (!QUARANTINE_STATUSES.includes(status)) {
+      return res
+        .status(400)
+        .json({ error: `status must be one of: ${QUARANTINE_STATUSES.join(', ')}` });
+    }
+
+    const filter: any = { status };
+    if (typeof req.query.uuid === 'string') filter.uuid = req.query.uuid;
+
+    const [points, total] = await Promise.all([
+      QuarantinedPrice.find(filter)
+        .sort({ detectedAt: -1, _id: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select('-__v')
+        .lean(),
+      QuarantinedPrice.countDocuments(filter),
+    ]);
+
+    const cards = await Card.find({ uuid: { $in: points.map((p) => p.uuid) } })
+      .select('-_id uuid name setCode')
+      .lean();
+    const cardsByUuid = new Map(cards.map((c) => [c.uuid, c]));
+
+    res.json({
+      results: points.map((p) => ({
+        ...p,
+        name: cardsByUuid.get(p.uuid)?.name ?? null,
+        setCode: cardsByUuid.get(p.uuid)?.setCode ?? null,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching quarantined prices.');
+  }
+});
+
+/**
+ * Marks a quarantined point reviewed and brings PricePoint history in line with the decision.
+ * Returns the updated point, or null if it doesn't exist.
+ */
+async function reviewQuarantinedPrice(id: string, status: 'approved' | 'rejected') {
+  if (!mongoose.isValidObjectId(id)) return null;
+  const point = await QuarantinedPrice.findByIdAndUpdate(
+    id,
+    { $set: { status, reviewedAt: new Date() } },
+    { new: true }
+  )
+    .select('-__v')
+    .lean();
+  if (!point) return null;
+
+  const { uuid, vendor, priceType, finish, date } = point;
+  if (status === 'approved') {
+    await PricePoint.bulkWrite([pricePointUpsert(point)]);
+  } else {
+    await PricePoint.deleteOne({ uuid, vendor, priceType, finish, date });
+  }
+  await refreshSummaries([uuid]);
+  return point;
+}
+
+/**
+ * POST /api/admin/quarantine/:id/approve
+ *
+ * Accepts a quarantined point as a real price: it is written into history and the card's
+ * summary is refreshed. Later pipeline runs let the same point through.
+ */
+router.post('/admin/quarantine/:id/approve', async (req, res) => {
+  try {
+    const point = await reviewQuarantinedPrice(req.params.id, 'approved');
+    if (!point) {
+      return res.status(404).json({ error: 'Quarantined price not found' });
+    }
+    res.json(point);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while approving the quarantined price.');
+  }
+});
+
+/**
+ * POST /api/admin/quarantine/:id/reject
+ *
+ * Marks a quarantined point as bad data: it stays out of history (and is removed if it had been
+ * approved), and later pipeline runs drop the same point without quarantining it again.
+ */
+router.post('/admin/quarantine/:id/reject', async (req, res) => {
+  try {
+    const point = await reviewQuarantinedPrice(req.params.id, 'rejected');
+    if (!point) {
+      return res.status(404).json({ error: 'Quarantined price not found' });
+    }
+    res.json(point);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while rejecting the quarantined price.');
+  }
+});
+
+/**
+ * POST /api/admin/watchlists/:id/confirm-email
+ *
+ * Confirms a watchlist's current email address (after checking with its owner), so the daily
+ * alert run starts mailing it. Changing the email through /api/watchlists clears this again.
+ */
+router.post('/admin/watchlists/:id/confirm-email', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    const watchlist = await Watchlist.findOneAndUpdate(
+      { _id: req.params.id, email: { $nin: [null, ''] } },
+      { $set: { emailConfirmed: true } },
+      { new: true }
+    )
+      .select('-__v')
+      .lean();
+    if (!watchlist) {
+      return res.status(404).json({ error: 'Watchlist not found or has no email' });
+    }
+    res.json(watchlist);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while confirming the watchlist email.');
+  }
+});
+
+export default router;
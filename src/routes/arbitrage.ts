@@ -0,0 +1,89 @@
+/**
+ * Goblin Bookie – Arbitrage API Route
+ *
+ * - `/api/arbitrage` : Cards where one vendor's buylist beats another vendor's retail, ranked by spread
+ *
+ * Key Details:
+ * - Backed entirely by the ArbitrageOpportunity collection, precomputed by the daily sync
+ *   (scripts/computeArbitrage.ts), so a request is one indexed query.
+ * - Stored in USD; prices, spreads and price filters are converted to/from `?currency=`.
+ */
+
+import express from 'express';
+import ArbitrageOpportunity from '../models/ArbitrageOpportunity';
+import { handleRouteError } from '../utils/routeHelpers';
+import { BASE_CURRENCY, fromBase, resolveCurrency } from '../utils/currency';
+import { FINISHES } from '../utils/vendors';
+
+const router = express.Router();
+
+const SORTS = ['spread', 'spreadPct'];
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/arbitrage
+ *
+ * Query params (all optional):
+ *   - minSpread:    Minimum spread in `currency` units (sell - buy) (default 0)
+ *   - minSpreadPct: Minimum spread as % of the buy price (default 0)
+ *   - minPrice:     Minimum buy (retail) price in `currency`, to skip bulk commons (default 0)
+ *   - currency:     'USD' | 'EUR' (default 'USD')
+ *   - finish:       'normal' | 'foil' | 'etched' (default: all)
+ *   - sort:         'spread' | 'spreadPct' (default 'spread'), always descending
+ *   - page, limit:  Pagination (limit up to 100, default 20)
+ */
+router.get('/arbitrage', async (req, res) => {
+  try {
+    const finish = req.query.finish as string | undefined;
+    const sort = (req.query.sort as string) || 'spread';
+    const limit = Math.max(1, Math.min(parseInt(req.query.limit as string) || 20, MAX_LIMIT));
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+
+    if (finish && !FINISHES.includes(finish)) {
+      return res.status(400).json({ error: `finish must be one of: ${FINISHES.join(', ')}` });
+    }
+    if (!SORTS.includes(sort)) {
+      return res.status(400).json({ error: `sort must be one of: ${SORTS.join(', ')}` });
+    }
+    const { currency, fx, error } = await resolveCurrency(req.query.currency);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const toBase = (value: any) => fx(parseFloat(value) || 0, currency, BASE_CURRENCY)!;
+
+    const filter: any = {
+      spread: { $gte: toBase(req.query.minSpread) },
+      spreadPct: { $gte: parseFloat(req.query.minSpreadPct as string) || 0 },
+      buyPrice: { $gte: toBase(req.query.minPrice) },
+    };
+    if (finish) filter.finish = finish;
+
+    const [results, total] = await Promise.all([
+      ArbitrageOpportunity.find(filter)
+        .sort({ [sort]: -1, uuid: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select('-_id -__v -computedAt')
+        .lean(),
+      ArbitrageOpportunity.countDocuments(filter),
+    ]);
+
+    res.json({
+      results: results.map((r) => ({
+        ...r,
+        buyPrice: fromBase(fx, r.buyPrice, currency),
+        sellPrice: fromBase(fx, r.sellPrice, currency),
+        spread: fromBase(fx, r.spread, currency),
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      currency,
+    });
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching arbitrage opportunities.');
+  }
+});
+
+export default router;
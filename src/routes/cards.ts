@@ -4,148 +4,271 @@
  * This file defines the main Express API endpoints for Magic: The Gathering card search and detail
  * for the Goblin Bookie app.
  *
- * - `/api/cards`        : Search for cards by name, paginated, plus simple price stats
+ * - `/api/cards`        : Search/filter/sort cards (name, set, card metadata, finish, vendor, price),
+ *   paginated with totals
+ * - `/api/cards/autocomplete` : Top N distinct card names for a partial/misspelled query
+ * - `/api/cards/printings?name=` / `/api/cards/:uuid/printings` : Every printing of a card name
+ *   (optionally in some languages), with the cheapest retail and highest buylist printing per finish
  * - `/api/cards/random` : Return a random card's UUID from the DB (frontend follows up for full details)
  * - `/api/cards/:uuid`  : Get full detail (including all vendor/finish price aggregates + history) for one card
+ *   (raw per-vendor history exports live in src/routes/history.ts)
  *
  * Key Details:
- * - Handles partial-name search using Mongo regex, paginated for performance.
+ * - Handles partial-name search (escaped, accent-insensitive, ranked by relevance, with a fuzzy
+ *   fallback for typos) plus set/finish/vendor/price filters, all evaluated in MongoDB and
+ *   paginated for performance.
  * - Summarizes price info across multiple vendors and finishes.
  * - Uses real card image URLs from the database, falling back to placeholder if missing.
  * - Always memory-safe: No route loads the entire card DB into RAM.
+ * - The search route reads each card's precomputed `summary` (written at upload time); only the
+ *   detail route reads raw history, for one card, from the PricePoint collection.
+ * - Every price route accepts `?currency=USD|EUR` (default USD). Vendor prices are converted from
+ *   their own currency (cardmarket is EUR) with the FX rate for their date before anything is
+ *   averaged; summary prices (stored in USD) are converted at the latest rate.
+ * - Vendors, price types and finishes come from the vendor registry (src/utils/vendors.ts, also
+ *   served by `/api/vendors`).
  */
 
 import express from 'express';
 import Card from '../models/Card';
+import CardSet from '../models/CardSet';
+import { getLatestPoint, getVendorCurrency, round2, toPriceNumber } from '../utils/priceHelpers';
+import { BASE_CURRENCY, FxConverter, fromBase, resolveCurrency } from '../utils/currency';
+import { loadPriceTree } from '../utils/priceHistory';
+import { buildCardSearch, CardSearch, languageFilter } from '../utils/cardSearch';
+import { MAX_QUERY_LENGTH, normalizeName, rankNames } from '../utils/nameSearch';
+import { FINISHES, getPurchaseUrl, PRICE_TYPES, VENDORS, VENDOR_IDS } from '../utils/vendors';
 
 const router = express.Router();
 
 const PLACEHOLDER_IMG = '/images/PlaceHolder.png';
+const MAX_PAGE_SIZE = 100;
+const MAX_AUTOCOMPLETE = 25;
+const FUZZY_CANDIDATES = 50;
 
-/** Helper: round a nullable number to two decimals, or return null. */
-function round2(num: number | null): number | null {
-  return typeof num === 'number' ? Number(num.toFixed(2)) : null;
+/**
+ * Helper: runs a built card search for one page and counts all matches.
+ * Selects key fields only for perf; prices come from the precomputed summary.
+ */
+async function findCardsPage(search: CardSearch, page: number, limit: number) {
+  const pipeline: any[] = [{ $match: search.filter }];
+  if (search.addFields) pipeline.push({ $addFields: search.addFields });
+  pipeline.push(
+    { $sort: search.sort },
+    { $skip: (page - 1) * limit },
+    { $limit: limit },
+    {
+      $project: {
+        uuid: 1,
+        name: 1,
+        setCode: 1,
+        scryfallId: 1,
+        imageUrl: 1,
+        rarity: 1,
+        colors: 1,
+        typeLine: 1,
+        manaValue: 1,
+        summary: 1,
+      },
+    }
+  );
+
+  return Promise.all([Card.aggregate(pipeline), Card.countDocuments(search.filter)]);
+}
+
+/**
+ * Helper: every printing of a card name (matched on normalizedName), with set metadata, image,
+ * latest per-finish prices (in `currency`), and the cheapest-retail / highest-buylist printing
+ * per finish. `language` (comma-separated) limits which language versions are included.
+ */
+async function findPrintings(name: string, currency: string, fx: FxConverter, language?: string) {
+  const filter: any = { normalizedName: normalizeName(name) };
+  if (language) filter.language = languageFilter(language);
+  const cards = await Card.find(filter)
+    .select('uuid name printedName setCode language imageUrl summary')
+    .lean();
+  if (!cards.length) return null;
+
+  const sets = await CardSet.find({ code: { $in: cards.map((c) => c.setCode) } })
+    .select('code name releaseDate')
+    .lean();
+  const setsByCode = new Map(sets.map((s) => [s.code, s]));
+
+  const printings = cards.map((card) => {
+    const summary: any = card.summary;
+    const prices: any = { retail: {}, buylist: {} };
+    for (const type of PRICE_TYPES) {
+      for (const finish of FINISHES) {
+        prices[type][finish] = fromBase(fx, summary?.[type]?.[finish]?.avg, currency);
+      }
+    }
+    const set = setsByCode.get(card.setCode || '');
+    return {
+      uuid: card.uuid,
+      set: card.setCode,
+      setName: set?.name ?? null,
+      releaseDate: set?.releaseDate ?? null,
+      language: card.language,
+      printedName: card.printedName ?? null,
+      imageUrl: card.imageUrl || PLACEHOLDER_IMG,
+      prices,
+    };
+  });
+  printings.sort((a, b) => (b.releaseDate || '').localeCompare(a.releaseDate || ''));
+
+  // Per finish: where to buy cheapest, and where a vendor pays the most
+  const best: any = {};
+  for (const finish of FINISHES) {
+    let cheapestRetail: any = null;
+    let highestBuylist: any = null;
+    for (const p of printings) {
+      const retail = p.prices.retail[finish];
+      const buylist = p.prices.buylist[finish];
+      if (typeof retail === 'number' && (!cheapestRetail || retail < cheapestRetail.price)) {
+        cheapestRetail = { uuid: p.uuid, set: p.set, setName: p.setName, price: retail };
+      }
+      if (typeof buylist === 'number' && (!highestBuylist || buylist > highestBuylist.price)) {
+        highestBuylist = { uuid: p.uuid, set: p.set, setName: p.setName, price: buylist };
+      }
+    }
+    if (cheapestRetail || highestBuylist) best[finish] = { cheapestRetail, highestBuylist };
+  }
+
+  return { name: cards[0].name, currency, count: printings.length, best, printings };
 }
 
 /**
  * GET /api/cards
  *
- * Paginated search for cards by (partial) name.
- * Returns a summary for each card: uuid, name, set, average retail/buylist prices (all vendors), and weekly % change.
+ * Paginated card search with filters (name, set, language, rarity, colors, type, legality, mana
+ * value, finish, vendor, price range) and sorting (name, price, weekly change); see
+ * src/utils/cardSearch.ts for every parameter. Only English cards are searched unless `language`
+ * is given, the same default as the set routes.
+ * Returns { results, total, page, limit, totalPages, currency }, where each result has uuid, name,
+ * set, rarity, colors, type line, mana value, average retail/buylist prices (all vendors, in `currency`) and weekly % change for the
+ * requested finish. minPrice/maxPrice are read in `currency` too.
  */
 router.get('/cards', async (req, res) => {
   try {
-    const name = req.query.name as string;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const page = parseInt(req.query.page as string) || 1;
-
-    // Mongo filter: case-insensitive substring search for card name
-    const filter: any = {};
-    if (name) {
-      filter.name = { $regex: name, $options: 'i' };
-    }
+    const limit = Math.max(1, Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE));
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
 
-    // Select key fields only for perf
-    const cards = await Card.find(filter)
-      .skip((page - 1) * limit)
-      .limit(limit)
-      .select('uuid name setCode scryfallId prices imageUrl')
-      .exec();
-
-    function getLatestPrice(priceObj: any, type: 'retail' | 'buylist') {
-      if (!priceObj || !priceObj[type] || !priceObj[type].normal) return null;
-      const dates = Object.keys(priceObj[type].normal);
-      if (dates.length === 0) return null;
-      dates.sort(); // Dates as strings, lexically sorted (ISO 8601 format)
-      const latest = dates[dates.length - 1];
-      const value = priceObj[type].normal[latest];
-      if (value && typeof value === 'object' && '$numberInt' in value)
-        return Number(value['$numberInt']);
-      if (value && typeof value === 'object' && '$numberDouble' in value)
-        return Number(value['$numberDouble']);
-      return typeof value === 'number' ? value : null;
+    const { currency, fx, error } = await resolveCurrency(req.query.currency);
+    if (error) {
+      return res.status(400).json({ error });
     }
+    const toBase = (amount: number) => fx(amount, currency, BASE_CURRENCY)!;
 
-    function getWeekAgoPrice(priceObj: any, type: 'retail' | 'buylist') {
-      if (!priceObj || !priceObj[type] || !priceObj[type].normal) return null;
-      const dates = Object.keys(priceObj[type].normal).sort();
-      if (dates.length < 7) return null;
-      const weekAgo = dates[dates.length - 7];
-      const value = priceObj[type].normal[weekAgo];
-      if (value && typeof value === 'object' && '$numberInt' in value)
-        return Number(value['$numberInt']);
-      if (value && typeof value === 'object' && '$numberDouble' in value)
-        return Number(value['$numberDouble']);
-      return typeof value === 'number' ? value : null;
+    let search = buildCardSearch(req.query, { toBase });
+    if (search.error) {
+      return res.status(400).json({ error: search.error });
     }
+    let [cards, total] = await findCardsPage(search, page, limit);
 
-    const vendorNames = ['tcgplayer', 'cardkingdom', 'cardmarket'];
+    // Nothing contains the name as typed: retry with fuzzy-matched names ("lightning blot")
+    if (total === 0 && req.query.name) {
+      const fuzzyNames = await rankNames(String(req.query.name), FUZZY_CANDIDATES);
+      if (fuzzyNames.length) {
+        search = buildCardSearch(req.query, { fuzzyNames, toBase });
+        [cards, total] = await findCardsPage(search, page, limit);
+      }
+    }
+    const finish = search.finish;
 
     const response = cards.map((card) => {
       // Use imageUrl from DB, fallback to placeholder
       const imageUrl = card.imageUrl || PLACEHOLDER_IMG;
-
-      const vendorRetailPrices = vendorNames
-        .map((vendor) => getLatestPrice((card.prices as any)?.[vendor], 'retail'))
-        .filter((p) => typeof p === 'number');
-      const avgRetail = vendorRetailPrices.length
-        ? vendorRetailPrices.reduce((a, b) => a + b, 0) / vendorRetailPrices.length
-        : null;
-
-      const vendorBuylistPrices = vendorNames
-        .map((vendor) => getLatestPrice((card.prices as any)?.[vendor], 'buylist'))
-        .filter((p) => typeof p === 'number');
-      const avgBuylist = vendorBuylistPrices.length
-        ? vendorBuylistPrices.reduce((a, b) => a + b, 0) / vendorBuylistPrices.length
-        : null;
-
-      const retailChanges = vendorNames
-        .map((vendor) => {
-          const latest = getLatestPrice((card.prices as any)?.[vendor], 'retail');
-          const weekAgo = getWeekAgoPrice((card.prices as any)?.[vendor], 'retail');
-          if (typeof latest === 'number' && typeof weekAgo === 'number' && weekAgo !== 0) {
-            return ((latest - weekAgo) / weekAgo) * 100;
-          }
-          return null;
-        })
-        .filter((c) => typeof c === 'number');
-      const weeklyChangePct = retailChanges.length
-        ? retailChanges.reduce((a, b) => a + b, 0) / retailChanges.length
-        : null;
-
-      const buylistChanges = vendorNames
-        .map((vendor) => {
-          const latest = getLatestPrice((card.prices as any)?.[vendor], 'buylist');
-          const weekAgo = getWeekAgoPrice((card.prices as any)?.[vendor], 'buylist');
-          if (typeof latest === 'number' && typeof weekAgo === 'number' && weekAgo !== 0) {
-            return ((latest - weekAgo) / weekAgo) * 100;
-          }
-          return null;
-        })
-        .filter((c) => typeof c === 'number');
-      const weeklyChangeBuylistPct = buylistChanges.length
-        ? buylistChanges.reduce((a, b) => a + b, 0) / buylistChanges.length
-        : null;
+      const summary: any = card.summary;
 
       return {
         uuid: card.uuid,
         name: card.name,
         set: card.setCode,
         imageUrl,
-        avgRetail: round2(avgRetail),
-        avgBuylist: round2(avgBuylist),
-        weeklyChangePct: round2(weeklyChangePct),
-        weeklyChangeBuylistPct: round2(weeklyChangeBuylistPct),
+        rarity: card.rarity ?? null,
+        colors: card.colors ?? [],
+        typeLine: card.typeLine ?? null,
+        manaValue: card.manaValue ?? null,
+        finish,
+        avgRetail: fromBase(fx, summary?.retail?.[finish]?.avg, currency),
+        avgBuylist: fromBase(fx, summary?.buylist?.[finish]?.avg, currency),
+        weeklyChangePct: summary?.retail?.[finish]?.change7d ?? null,
+        weeklyChangeBuylistPct: summary?.buylist?.[finish]?.change7d ?? null,
       };
     });
 
-    res.json(response);
+    res.json({
+      results: response,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      currency,
+    });
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: 'Server error while searching cards.' });
   }
 });
 
+/**
+ * GET /api/cards/autocomplete?q=&limit=
+ *
+ * Returns up to `limit` (default 10, max 25) distinct card names matching `q`, best match first:
+ * exact, prefix, word prefix, substring, then typo-tolerant matches. Served from an in-memory
+ * name index, so it never scans the card collection per keystroke.
+ */
+router.get('/cards/autocomplete', async (req, res) => {
+  try {
+    const q = String(req.query.q || '');
+    const limit = Math.max(
+      1,
+      Math.min(parseInt(req.query.limit as string) || 10, MAX_AUTOCOMPLETE)
+    );
+    if (q.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({ error: `q must be at most ${MAX_QUERY_LENGTH} characters` });
+    }
+
+    res.json(await rankNames(q, limit));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error while autocompleting card names.' });
+  }
+});
+
+/**
+ * GET /api/cards/printings?name=
+ *
+ * Every printing of a card name (accent/case-insensitive exact English name) with set, language,
+ * image and latest per-finish average prices, plus the cheapest retail and highest buylist
+ * printing per finish. Optional ?language= (comma-separated) restricts the languages included.
+ */
+router.get('/cards/printings', async (req, res) => {
+  try {
+    const name = String(req.query.name || '');
+    if (!name || name.length > MAX_QUERY_LENGTH) {
+      return res
+        .status(400)
+        .json({ error: `name is required (at most ${MAX_QUERY_LENGTH} characters)` });
+    }
+
+    const { currency, fx, error } = await resolveCurrency(req.query.currency);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const language = req.query.language ? String(req.query.language) : undefined;
+    const result = await findPrintings(name, currency, fx, language);
+    if (!result) {
+      return res.status(404).json({ error: 'Card not found' });
+    }
+    res.json(result);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error while fetching printings.' });
+  }
+});
+
 /**
  * GET /api/cards/random
  *
@@ -164,28 +287,77 @@ router.get('/cards/random', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/cards/:uuid/printings
+ *
+ * Same as /api/cards/printings, for the name of the given card.
+ */
+router.get('/cards/:uuid/printings', async (req, res) => {
+  try {
+    const card = await Card.findOne({ uuid: req.params.uuid }).select('name').lean();
+    if (!card || !card.name) {
+      return res.status(404).json({ error: 'Card not found' });
+    }
+
+    const { currency, fx, error } = await resolveCurrency(req.query.currency);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const language = req.query.language ? String(req.query.language) : undefined;
+    res.json(await findPrintings(card.name, currency, fx, language));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error while fetching printings.' });
+  }
+});
+
 /**
  * GET /api/cards/:uuid
  *
- * Returns full detail for a single card.
+ * Returns full detail for a single card: gameplay metadata (rarity, colors, type line, mana value,
+ * oracle text, collector number, artist, legalities), its other-language versions (same set and
+ * collector number), per-vendor latest prices, cross-vendor
+ * aggregates, the best sell venue (highest buylist) per finish, and daily history. Every price is
+ * in `?currency=` (each vendor's `nativeCurrency` is reported alongside). A vendor with no FX rate
+ * to `?currency=` keeps its native prices, with `currency` saying which, and is left out of the
+ * aggregates, best sell venue and history averages.
  */
 router.get('/cards/:uuid', async (req, res) => {
   try {
     const uuid = req.params.uuid;
+    const { currency, fx, error } = await resolveCurrency(req.query.currency);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
     const card = await Card.findOne({ uuid }).select('-__v').lean();
 
     if (!card) {
       return res.status(404).json({ error: 'Card not found' });
     }
 
+    // Full price history for this card, rebuilt from the PricePoint collection
+    const cardPrices: any = await loadPriceTree(uuid);
+
+    // The same printing in other languages shares set code and collector number
+    const otherLanguages = card.collectorNumber
+      ? await Card.find({
+          setCode: card.setCode,
+          collectorNumber: card.collectorNumber,
+          uuid: { $ne: uuid },
+        })
+          .select('-_id uuid language printedName imageUrl')
+          .sort({ language: 1 })
+          .lean()
+      : [];
+
     // Use imageUrl from DB, fallback to placeholder
     const imageUrl = card.imageUrl || PLACEHOLDER_IMG;
-    const vendorNames = ['tcgplayer', 'cardkingdom', 'cardmarket'];
-
     function findAllFinishes(prices: any) {
       const finishes = new Set<string>();
-      for (const vendor of vendorNames) {
-        for (const type of ['retail', 'buylist']) {
+      for (const vendor of VENDOR_IDS) {
+        for (const type of PRICE_TYPES) {
           const typeObj = prices?.[vendor]?.[type];
           if (typeObj) {
             Object.keys(typeObj)
@@ -197,40 +369,42 @@ router.get('/cards/:uuid', async (req, res) => {
       return Array.from(finishes);
     }
 
-    const allFinishes = findAllFinishes(card.prices);
-
-    function getLatestForFinish(priceObj: any, type: 'retail' | 'buylist', finish: string) {
-      if (!priceObj || !priceObj[type] || !priceObj[type][finish]) return null;
-      const dates = Object.keys(priceObj[type][finish]);
-      if (!dates.length) return null;
-      dates.sort();
-      const latest = dates[dates.length - 1];
-      const value = priceObj[type][finish][latest];
-      if (value && typeof value === 'object' && '$numberInt' in value)
-        return Number(value['$numberInt']);
-      if (value && typeof value === 'object' && '$numberDouble' in value)
-        return Number(value['$numberDouble']);
-      return typeof value === 'number' ? value : null;
-    }
+    const allFinishes = findAllFinishes(cardPrices);
+
+    // Converts one vendor's native price on a date into the requested currency
+    const convert = (price: number, vendor: string, date: string) =>
+      fx(price, getVendorCurrency(cardPrices, vendor), currency, date);
 
-    const vendors = vendorNames.map((vendor) => {
+    const vendors = VENDORS.map(({ id: vendor, displayName }) => {
+      const nativeCurrency = getVendorCurrency(cardPrices, vendor);
+      // Without a rate, show the vendor's own prices rather than none at all
+      const converted = fx(1, nativeCurrency, currency) !== null;
       const vendorObj: any = {
         vendor,
-        purchaseUrl: card.purchaseUrls?.[vendor] || null,
+        displayName,
+        nativeCurrency,
+        currency: converted ? currency : nativeCurrency,
+        purchaseUrl: getPurchaseUrl(card.purchaseUrls, vendor),
         prices: {},
       };
-      for (const type of ['retail', 'buylist']) {
+      for (const type of PRICE_TYPES) {
         vendorObj.prices[type] = {};
         for (const finish of allFinishes) {
-          const val = getLatestForFinish((card.prices as any)?.[vendor], type as any, finish);
-          vendorObj.prices[type][finish] = val !== undefined ? val : null;
+          const point = getLatestPoint(cardPrices?.[vendor], type, finish);
+          vendorObj.prices[type][finish] = point
+            ? round2(converted ? convert(point.price, vendor, point.date) : point.price)
+            : null;
         }
       }
       return vendorObj;
     });
+    // Only vendors priced in `currency` may be compared or averaged
+    const convertedVendors = vendors.filter((v) => v.currency === currency);
 
     function getFinishAggregates(type: 'retail' | 'buylist', finish: string) {
-      const vals = vendors.map((v) => v.prices[type][finish]).filter((x) => typeof x === 'number');
+      const vals = convertedVendors
+        .map((v) => v.prices[type][finish])
+        .filter((x) => typeof x === 'number');
       return {
         low: vals.length ? Number(Math.min(...vals).toFixed(2)) : null,
         avg: vals.length
@@ -241,17 +415,35 @@ router.get('/cards/:uuid', async (req, res) => {
     }
 
     const prices: Record<string, any> = {};
-    for (const type of ['retail', 'buylist']) {
+    for (const type of PRICE_TYPES) {
       prices[type] = {};
       for (const finish of allFinishes) {
-        prices[type][finish] = getFinishAggregates(type as any, finish);
+        prices[type][finish] = getFinishAggregates(type, finish);
+      }
+    }
+
+    // Best place to sell: the vendor paying the highest buylist price, per finish
+    const bestSellVenue: Record<string, any> = {};
+    for (const finish of allFinishes) {
+      let best: any = null;
+      for (const v of convertedVendors) {
+        const buylist = v.prices.buylist[finish];
+        if (typeof buylist === 'number' && (!best || buylist > best.price)) {
+          best = {
+            vendor: v.vendor,
+            displayName: v.displayName,
+            price: buylist,
+            purchaseUrl: v.purchaseUrl,
+          };
+        }
       }
+      bestSellVenue[finish] = best;
     }
 
     function allDatesForFinish(prices: any, finish: string) {
       const dateSet = new Set<string>();
-      for (const vendor of vendorNames) {
-        for (const type of ['retail', 'buylist']) {
+      for (const vendor of VENDOR_IDS) {
+        for (const type of PRICE_TYPES) {
           const obj = prices?.[vendor]?.[type]?.[finish];
           if (obj) Object.keys(obj).forEach((date) => dateSet.add(date));
         }
@@ -260,48 +452,26 @@ router.get('/cards/:uuid', async (req, res) => {
     }
     let allDatesSet = new Set<string>();
     for (const finish of allFinishes) {
-      allDatesForFinish(card.prices, finish).forEach((date) => allDatesSet.add(date));
+      allDatesForFinish(cardPrices, finish).forEach((date) => allDatesSet.add(date));
     }
     const allDates = Array.from(allDatesSet).sort();
 
+    // Cross-vendor average for one day, after converting each vendor's price (prices without a
+    // rate return null from convert and are left out)
+    function averageOnDate(type: 'retail' | 'buylist', finish: string, date: string) {
+      const vals = VENDOR_IDS.map((v) => {
+        const price = toPriceNumber(cardPrices?.[v]?.[type]?.[finish]?.[date]);
+        return price === null ? null : convert(price, v, date);
+      }).filter((x): x is number => typeof x === 'number');
+      return vals.length ? round2(vals.reduce((a, b) => a + b, 0) / vals.length) : null;
+    }
+
     const history = allDates.map((date) => {
       const retail: any = {};
       const buylist: any = {};
       for (const finish of allFinishes) {
-        const retailVals = vendorNames
-          .map((v) => (card.prices as any)?.[v]?.retail?.[finish]?.[date])
-          .filter((x) =>
-            typeof x === 'object'
-              ? '$numberInt' in x || '$numberDouble' in x
-              : typeof x === 'number'
-          )
-          .map((x) => {
-            if (x && typeof x === 'object' && '$numberInt' in x) return Number(x['$numberInt']);
-            if (x && typeof x === 'object' && '$numberDouble' in x)
-              return Number(x['$numberDouble']);
-            return typeof x === 'number' ? x : null;
-          })
-          .filter((x): x is number => typeof x === 'number');
-        retail[finish] = retailVals.length
-          ? Number((retailVals.reduce((a, b) => a + b, 0) / retailVals.length).toFixed(2))
-          : null;
-        const buylistVals = vendorNames
-          .map((v) => (card.prices as any)?.[v]?.buylist?.[finish]?.[date])
-          .filter((x) =>
-            typeof x === 'object'
-              ? '$numberInt' in x || '$numberDouble' in x
-              : typeof x === 'number'
-          )
-          .map((x) => {
-            if (x && typeof x === 'object' && '$numberInt' in x) return Number(x['$numberInt']);
-            if (x && typeof x === 'object' && '$numberDouble' in x)
-              return Number(x['$numberDouble']);
-            return typeof x === 'number' ? x : null;
-          })
-          .filter((x): x is number => typeof x === 'number');
-        buylist[finish] = buylistVals.length
-          ? Number((buylistVals.reduce((a, b) => a + b, 0) / buylistVals.length).toFixed(2))
-          : null;
+        retail[finish] = averageOnDate('retail', finish, date);
+        buylist[finish] = averageOnDate('buylist', finish, date);
       }
       return { date, retail, buylist };
     });
@@ -311,10 +481,28 @@ router.get('/cards/:uuid', async (req, res) => {
       name: card.name,
       set: card.setCode,
       language: card.language,
+      printedName: card.printedName ?? null,
+      otherLanguages: otherLanguages.map((c) => ({
+        uuid: c.uuid,
+        language: c.language,
+        printedName: c.printedName ?? null,
+        imageUrl: c.imageUrl || PLACEHOLDER_IMG,
+      })),
       imageUrl,
+      rarity: card.rarity ?? null,
+      colors: card.colors ?? [],
+      colorIdentity: card.colorIdentity ?? [],
+      typeLine: card.typeLine ?? null,
+      manaValue: card.manaValue ?? null,
+      oracleText: card.oracleText ?? null,
+      collectorNumber: card.collectorNumber ?? null,
+      artist: card.artist ?? null,
+      legalities: card.legalities ?? {},
+      currency,
       finishes: allFinishes,
       prices,
       vendors,
+      bestSellVenue,
       history,
     });
   } catch (err) {
@@ -0,0 +1,117 @@
+/**
+ * Goblin Bookie – Price History Export Routes
+ *
+ * - `/api/cards/:uuid/history`   : One card's raw price points as CSV, JSON or NDJSON
+ * - `/api/cards/history/export`  : The same for a whole set (`?set=`) or a list of uuids
+ *   (`?uuids=` or a POST body), streamed
+ *
+ * Key Details:
+ * - Rows are per-vendor stored points (uuid, name, set, vendor, priceType, finish, date, price,
+ *   currency) in the vendor's own currency, not the cross-vendor average `/api/cards/:uuid`
+ *   returns as `history`.
+ * - Every route takes the same filters: `format=csv|json|ndjson` (default csv), `vendor`, `type`
+ *   and `finish` (comma-separated lists) and `since` / `until` (YYYY-MM-DD, inclusive).
+ * - Responses are streamed from a database cursor (see src/utils/historyExport.ts), so a large
+ *   export is never buffered in memory.
+ */
+
+import express from 'express';
+import Card from '../models/Card';
+import { parseHistoryQuery, streamHistoryExport } from '../utils/historyExport';
+import { handleRouteError } from '../utils/routeHelpers';
+
+const router = express.Router();
+
+const MAX_EXPORT_UUIDS = 1000;
+const MAX_SET_CODE_LENGTH = 10;
+
+/**
+ * GET /api/cards/:uuid/history
+ *
+ * Query params (all optional): format, vendor, type, finish, since, until (see above).
+ * Returns 404 if the card doesn't exist; a card without points gives an empty export.
+ */
+router.get('/cards/:uuid/history', async (req, res) => {
+  try {
+    const { format, filter, error } = parseHistoryQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const card = await Card.findOne({ uuid: req.params.uuid })
+      .select('-_id uuid name setCode')
+      .lean();
+    if (!card) {
+      return res.status(404).json({ error: 'Card not found' });
+    }
+
+    await streamHistoryExport(res, [card], filter, format, `history-${card.uuid}`);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while exporting price history.');
+  }
+});
+
+/**
+ * Bulk export handler shared by GET (uuids in the query) and POST (uuids in a JSON body,
+ * for lists too long for a URL).
+ *
+ * Selection (exactly one):
+ *   - set:   Set code; every card in the set
+ *   - uuids: Up to 1000 card uuids (comma-separated in the query, or a `uuids` array in the body)
+ * Filters: format, vendor, type, finish, since, until, always read from the query string.
+ */
+async function exportHistory(req: express.Request, res: express.Response) {
+  try {
+    const { format, filter, error } = parseHistoryQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const set = req.query.set ? String(req.query.set).trim().toUpperCase() : '';
+    const rawUuids = req.body?.uuids ?? req.query.uuids;
+    const uuids: string[] = Array.isArray(rawUuids)
+      ? rawUuids.map(String)
+      : rawUuids
+        ? String(rawUuids).split(',')
+        : [];
+    const uniqueUuids = Array.from(new Set(uuids.map((u) => u.trim()).filter(Boolean)));
+
+    if (!set === !uniqueUuids.length) {
+      return res.status(400).json({ error: 'Give either set or uuids' });
+    }
+    if (set.length > MAX_SET_CODE_LENGTH) {
+      return res
+        .status(400)
+        .json({ error: `set must be at most ${MAX_SET_CODE_LENGTH} characters` });
+    }
+    if (uniqueUuids.length > MAX_EXPORT_UUIDS) {
+      return res.status(400).json({ error: `At most ${MAX_EXPORT_UUIDS} uuids per export` });
+    }
+
+    const cards = await Card.find(set ? { setCode: set } : { uuid: { $in: uniqueUuids } })
+      .select('-_id uuid name setCode')
+      .lean();
+    if (!cards.length) {
+      return res.status(404).json({ error: set ? 'Set not found' : 'No matching cards' });
+    }
+
+    await streamHistoryExport(
+      res,
+      cards,
+      filter,
+      format,
+      set ? `history-${set}` : 'history-export'
+    );
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while exporting price history.');
+  }
+}
+
+/**
+ * GET /api/cards/history/export?set=|uuids=
+ * POST /api/cards/history/export  { "uuids": [...] }
+ */
+router.get('/cards/history/export', exportHistory);
+router.post('/cards/history/export', exportHistory);
+
+export default router;
@@ -0,0 +1,90 @@
+/**
+ * Goblin Bookie – Market Movers API Route
+ *
+ * - `/api/movers` : Top gainers or losers across the whole database for a time window
+ *
+ * Key Details:
+ * - Backed entirely by the precomputed MarketMover collection (rebuilt by the daily sync),
+ *   so a request is one indexed query regardless of database size.
+ * - changePct averages each vendor's own change (vendors priced on both dates only); prices
+ *   average the same vendors. They are stored in USD and converted to `?currency=` at the latest
+ *   FX rate.
+ * - A rebuild is swapped in only once complete, so results always come from one finished run.
+ */
+
+import express from 'express';
+import MarketMover from '../models/MarketMover';
+import { handleRouteError } from '../utils/routeHelpers';
+import { BASE_CURRENCY, fromBase, resolveCurrency } from '../utils/currency';
+import { FINISHES, PRICE_TYPES } from '../utils/vendors';
+
+const router = express.Router();
+
+const WINDOWS = ['1d', '7d', '30d'];
+const DIRECTIONS = ['up', 'down'];
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/movers
+ *
+ * Query params (all optional):
+ *   - window:    '1d' | '7d' | '30d'          (default '7d')
+ *   - direction: 'up' (gainers) | 'down' (losers) (default 'up')
+ *   - type:      'retail' | 'buylist'         (default 'retail')
+ *   - finish:    'normal' | 'foil' | 'etched' (default 'normal')
+ *   - minPrice:  Ignore cards whose current price is below this, in `currency` (default 0)
+ *   - currency:  'USD' | 'EUR'                (default 'USD')
+ *   - limit:     Max results, 1 to 100        (default 20)
+ */
+router.get('/movers', async (req, res) => {
+  try {
+    const window = (req.query.window as string) || '7d';
+    const direction = (req.query.direction as string) || 'up';
+    const priceType = (req.query.type as string) || 'retail';
+    const finish = (req.query.finish as string) || 'normal';
+    const minPrice = parseFloat(req.query.minPrice as string) || 0;
+    const limit = Math.max(1, Math.min(parseInt(req.query.limit as string) || 20, MAX_LIMIT));
+
+    if (!WINDOWS.includes(window)) {
+      return res.status(400).json({ error: `window must be one of: ${WINDOWS.join(', ')}` });
+    }
+    if (!DIRECTIONS.includes(direction)) {
+      return res.status(400).json({ error: `direction must be one of: ${DIRECTIONS.join(', ')}` });
+    }
+    if (!PRICE_TYPES.includes(priceType as any)) {
+      return res.status(400).json({ error: `type must be one of: ${PRICE_TYPES.join(', ')}` });
+    }
+    if (!FINISHES.includes(finish)) {
+      return res.status(400).json({ error: `finish must be one of: ${FINISHES.join(', ')}` });
+    }
+    const { currency, fx, error } = await resolveCurrency(req.query.currency);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const movers = await MarketMover.find({
+      window,
+      priceType,
+      finish,
+      price: { $gte: fx(minPrice, currency, BASE_CURRENCY)! },
+      changePct: direction === 'up' ? { $gt: 0 } : { $lt: 0 },
+    })
+      .sort({ changePct: direction === 'up' ? -1 : 1 })
+      .limit(limit)
+      .select('-_id -__v -computedAt')
+      .lean();
+
+    res.json(
+      movers.map((m) => ({
+        ...m,
+        price: fromBase(fx, m.price, currency),
+        previousPrice: fromBase(fx, m.previousPrice, currency),
+        currency,
+      }))
+    );
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching market movers.');
+  }
+});
+
+export default router;
@@ -0,0 +1,283 @@
+/**
+ * Goblin Bookie – Portfolio API Routes
+ *
+ * Collection/inventory tracking: holdings per card, current valuation and daily value history.
+ *
+ * - `GET    /api/portfolios`                          : List portfolios (optionally ?owner=), no valuation
+ * - `POST   /api/portfolios`                          : Create a portfolio ({ name, owner?, currency?, holdings? })
+ * - `GET    /api/portfolios/:id`                      : Portfolio with per-holding value and P/L totals
+ * - `PUT    /api/portfolios/:id`                      : Rename / change owner / change currency
+ * - `DELETE /api/portfolios/:id`                      : Delete a portfolio and its snapshots
+ * - `POST   /api/portfolios/:id/holdings`             : Add a holding
+ * - `PUT    /api/portfolios/:id/holdings/:holdingId`  : Update a holding's quantity, finish, cost, ...
+ * - `DELETE /api/portfolios/:id/holdings/:holdingId`  : Remove a holding
+ * - `GET    /api/portfolios/:id/history`              : Daily value snapshots (?from=&to= YYYY-MM-DD)
+ *
+ * Key Details:
+ * - Valuation uses the same latest-price-per-vendor average as GET /api/cards/:uuid.
+ * - Snapshots are written by the daily sync (scripts/snapshotPortfolios.ts), never by these routes.
+ * - Valuation and history default to the portfolio's currency; `?currency=USD|EUR` converts them.
+ */
+
+import express from 'express';
+import mongoose from 'mongoose';
+import Portfolio from '../models/Portfolio';
+import PortfolioSnapshot from '../models/PortfolioSnapshot';
+import { valuePortfolio } from '../utils/portfolioValuation';
+import { handleRouteError } from '../utils/routeHelpers';
+import { resolveCurrency } from '../utils/currency';
+import { round2 } from '../utils/priceHelpers';
+
+const router = express.Router();
+
+const HOLDING_FIELDS = ['uuid', 'quantity', 'finish', 'acquisitionPrice', 'acquiredAt', 'notes'];
+
+/**
+ * GET /api/portfolios
+ *
+ * Lists portfolios (without valuation, to stay cheap).
+ */
+router.get('/portfolios', async (req, res) => {
+  try {
+    const filter: any = {};
+    if (req.query.owner) filter.owner = String(req.query.owner);
+    const portfolios = await Portfolio.find(filter).select('-__v').lean();
+    res.json(portfolios);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while listing portfolios.');
+  }
+});
+
+/**
+ * POST /api/portfolios
+ */
+router.post('/portfolios', async (req, res) => {
+  try {
+    const portfolio = await Portfolio.create({
+      name: req.body?.name,
+      owner: req.body?.owner,
+      currency: req.body?.currency,
+      holdings: req.body?.holdings,
+    });
+    res.status(201).json(portfolio);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while creating portfolio.');
+  }
+});
+
+/**
+ * GET /api/portfolios/:id
+ *
+ * Returns the portfolio with each holding's current unit price, value, cost and P/L, plus totals,
+ * in `?currency=` (default: the portfolio's currency). A holding whose prices have no FX rate to
+ * that currency (e.g. before any rates are loaded) keeps its vendors' own prices, with `currency`
+ * saying which and `unconverted: true`, and is left out of the totals (`totals.unconvertedCount`).
+ */
+router.get('/portfolios/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    const portfolio = await Portfolio.findById(req.params.id).lean();
+    if (!portfolio) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+
+    // Without FX rates, holdings are valued in their vendors' own currency and flagged
+    const { currency, error, missingRate } = await resolveCurrency(
+      req.query.currency || portfolio.currency
+    );
+    if (error && !missingRate) {
+      return res.status(400).json({ error });
+    }
+
+    const { holdings, totals } = await valuePortfolio(portfolio, currency);
+    res.json({
+      _id: portfolio._id,
+      name: portfolio.name,
+      owner: portfolio.owner,
+      currency,
+      holdings,
+      totals,
+    });
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while valuing portfolio.');
+  }
+});
+
+/**
+ * PUT /api/portfolios/:id
+ *
+ * Updates portfolio name and/or owner. Holdings are managed through the /holdings routes.
+ */
+router.put('/portfolios/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    const update: any = {};
+    if (req.body?.name !== undefined) update.name = req.body.name;
+    if (req.body?.owner !== undefined) update.owner = req.body.owner;
+    if (req.body?.currency !== undefined) update.currency = req.body.currency;
+
+    const portfolio = await Portfolio.findByIdAndUpdate(
+      req.params.id,
+      { $set: update },
+      { new: true, runValidators: true }
+    )
+      .select('-__v')
+      .lean();
+    if (!portfolio) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    res.json(portfolio);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while updating portfolio.');
+  }
+});
+
+/**
+ * DELETE /api/portfolios/:id
+ */
+router.delete('/portfolios/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    const result = await Portfolio.findByIdAndDelete(req.params.id);
+    if (!result) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    await PortfolioSnapshot.deleteMany({ portfolioId: result._id });
+    res.status(204).end();
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while deleting portfolio.');
+  }
+});
+
+/**
+ * POST /api/portfolios/:id/holdings
+ *
+ * Adds a holding. Body: { uuid, quantity?, finish?, acquisitionPrice?, acquiredAt?, notes? }
+ */
+router.post('/portfolios/:id/holdings', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    const portfolio = await Portfolio.findById(req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+
+    const holding: any = {};
+    for (const field of HOLDING_FIELDS) {
+      if (req.body?.[field] !== undefined) holding[field] = req.body[field];
+    }
+    portfolio.holdings.push(holding);
+    await portfolio.save();
+    res.status(201).json(portfolio.holdings[portfolio.holdings.length - 1]);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while adding holding.');
+  }
+});
+
+/**
+ * PUT /api/portfolios/:id/holdings/:holdingId
+ *
+ * Updates any of a holding's fields (quantity, finish, acquisitionPrice, acquiredAt, notes, uuid).
+ */
+router.put('/portfolios/:id/holdings/:holdingId', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    const portfolio = await Portfolio.findById(req.params.id);
+    const holding = portfolio?.holdings.id(req.params.holdingId);
+    if (!portfolio || !holding) {
+      return res.status(404).json({ error: 'Holding not found' });
+    }
+
+    for (const field of HOLDING_FIELDS) {
+      if (req.body?.[field] !== undefined) holding.set(field, req.body[field]);
+    }
+    await portfolio.save();
+    res.json(holding);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while updating holding.');
+  }
+});
+
+/**
+ * DELETE /api/portfolios/:id/holdings/:holdingId
+ */
+router.delete('/portfolios/:id/holdings/:holdingId', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    const portfolio = await Portfolio.findById(req.params.id);
+    const holding = portfolio?.holdings.id(req.params.holdingId);
+    if (!portfolio || !holding) {
+      return res.status(404).json({ error: 'Holding not found' });
+    }
+
+    holding.deleteOne();
+    await portfolio.save();
+    res.status(204).end();
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while removing holding.');
+  }
+});
+
+/**
+ * GET /api/portfolios/:id/history
+ *
+ * Returns the portfolio's daily value snapshots in date order, optionally within ?from=&to=.
+ * With `?currency=`, each snapshot is converted at its own date's FX rate.
+ */
+router.get('/portfolios/:id/history', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Portfolio not found' });
+    }
+    const { currency, fx, error } = await resolveCurrency(req.query.currency);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const filter: any = { portfolioId: req.params.id };
+    if (req.query.from || req.query.to) {
+      filter.date = {};
+      if (req.query.from) filter.date.$gte = String(req.query.from);
+      if (req.query.to) filter.date.$lte = String(req.query.to);
+    }
+
+    const snapshots = await PortfolioSnapshot.find(filter)
+      .sort({ date: 1 })
+      .select('-_id -__v -portfolioId')
+      .lean();
+    if (!req.query.currency) {
+      return res.json(snapshots);
+    }
+
+    // Snapshots keep the currency they were taken in; convert each at its own date
+    const convert = (amount: any, from: string, date: string) =>
+      typeof amount === 'number' ? round2(fx(amount, from, currency, date)) : null;
+    res.json(
+      snapshots.map((s) => {
+        const from = s.currency || 'USD';
+        return {
+          ...s,
+          currency,
+          totalValue: convert(s.totalValue, from, s.date),
+          totalCost: convert(s.totalCost, from, s.date),
+          profitLoss: convert(s.profitLoss, from, s.date),
+        };
+      })
+    );
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching portfolio history.');
+  }
+});
+
+export default router;
@@ -0,0 +1,192 @@
+/**
+ * Goblin Bookie – Sets API Routes
+ *
+ * - `/api/sets`       : Every set code with its card count and MTGJSON metadata (name, release date)
+ * - `/api/sets/:code` : One set's metadata, value stats and a page of its cards with latest prices
+ *
+ * Key Details:
+ * - Card counts and value stats are aggregated in MongoDB from Card documents (indexed on setCode)
+ *   and the precomputed price `summary`; no price history is read.
+ * - Set names/release dates come from the CardSet collection (scripts/uploadSets.ts); sets without
+ *   metadata are still listed, with null name/releaseDate.
+ * - A card's value is its average retail price for the normal finish, falling back to foil, then
+ *   etched, for cards that only exist in those finishes.
+ * - Prices are aggregated in the summary's USD base and converted to `?currency=` for the response.
+ * - Card lists, counts and totals only include one language (`?language=`, comma-separated, default
+ *   English), so a set kept in several languages (CARD_LANGUAGES) isn't counted once per language.
+ */
+
+import express from 'express';
+import Card from '../models/Card';
+import CardSet from '../models/CardSet';
+import { round2 } from '../utils/priceHelpers';
+import { handleRouteError } from '../utils/routeHelpers';
+import { fromBase, FxConverter, resolveCurrency } from '../utils/currency';
+import { DEFAULT_LANGUAGE, languageFilter } from '../utils/cardSearch';
+
+const router = express.Router();
+
+const PLACEHOLDER_IMG = '/images/PlaceHolder.png';
+const SET_SORTS = ['releaseDate', 'name', 'code', 'cardCount'];
+const MAX_PAGE_SIZE = 100;
+const TOP_CARDS = 10;
+
+// One-of-each card value: normal retail average, falling back to foil, then etched
+const CARD_VALUE_EXPR = {
+  $ifNull: ['$summary.retail.normal.avg', '$summary.retail.foil.avg', '$summary.retail.etched.avg'],
+};
+
+/** Helper: public shape of a card inside a set listing, with prices in `currency`. */
+function formatSetCard(card: any, currency: string, fx: FxConverter) {
+  const summary = card.summary;
+  return {
+    uuid: card.uuid,
+    name: card.name,
+    imageUrl: card.imageUrl || PLACEHOLDER_IMG,
+    value: fromBase(fx, card.value, currency),
+    avgRetail: fromBase(fx, summary?.retail?.normal?.avg, currency),
+    avgBuylist: fromBase(fx, summary?.buylist?.normal?.avg, currency),
+    weeklyChangePct: summary?.retail?.normal?.change7d ?? null,
+    foilRetail: fromBase(fx, summary?.retail?.foil?.avg, currency),
+  };
+}
+
+/** Helper: Card.language filter for a request's `?language=` (default DEFAULT_LANGUAGE). */
+function setLanguageFilter(query: any) {
+  return languageFilter(query.language ? String(query.language) : DEFAULT_LANGUAGE);
+}
+
+/**
+ * GET /api/sets
+ *
+ * Lists every set that has cards, with its card count and metadata.
+ * Query params: sort = releaseDate (default) | name | code | cardCount, order = asc | desc (default desc).
+ * Card counts only include `language` (comma-separated, default English).
+ */
+router.get('/sets', async (req, res) => {
+  try {
+    const sort = (req.query.sort as string) || 'releaseDate';
+    const order = (req.query.order as string) || 'desc';
+    if (!SET_SORTS.includes(sort)) {
+      return res.status(400).json({ error: `sort must be one of: ${SET_SORTS.join(', ')}` });
+    }
+    const direction = order === 'asc' ? 1 : -1;
+
+    const sets = await Card.aggregate([
+      { $match: { language: setLanguageFilter(req.query) } },
+      { $group: { _id: '$setCode', cardCount: { $sum: 1 } } },
+      { $match: { _id: { $ne: null } } },
+      {
+        $lookup: {
+          from: CardSet.collection.name,
+          localField: '_id',
+          foreignField: 'code',
+          as: 'meta',
+        },
+      },
+      { $unwind: { path: '$meta', preserveNullAndEmptyArrays: true } },
+      {
+        $project: {
+          _id: 0,
+          code: '$_id',
+          name: { $ifNull: ['$meta.name', null] },
+          releaseDate: { $ifNull: ['$meta.releaseDate', null] },
+          type: { $ifNull: ['$meta.type', null] },
+          cardCount: 1,
+        },
+      },
+      { $sort: { [sort]: direction, code: 1 } },
+    ]);
+
+    res.json(sets);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while listing sets.');
+  }
+});
+
+/**
+ * GET /api/sets/:code
+ *
+ * Returns set metadata, aggregate value stats and one page of cards (sorted by value, highest first).
+ * Stats: cardCount, pricedCount, totalRetail (one of each card), avgWeeklyChangePct and the
+ * TOP_CARDS most valuable cards. Query params: page, limit, currency (USD | EUR, default USD),
+ * language (comma-separated, default English).
+ */
+router.get('/sets/:code', async (req, res) => {
+  try {
+    const code = req.params.code.toUpperCase();
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, MAX_PAGE_SIZE);
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const { currency, fx, error } = await resolveCurrency(req.query.currency);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const formatCard = (card: any) => formatSetCard(card, currency, fx);
+
+    const cardFields = { uuid: 1, name: 1, imageUrl: 1, summary: 1, value: CARD_VALUE_EXPR };
+
+    const [meta, [stats]] = await Promise.all([
+      CardSet.findOne({ code }).select('-_id -__v').lean(),
+      Card.aggregate([
+        { $match: { setCode: code, language: setLanguageFilter(req.query) } },
+        { $project: cardFields },
+        {
+          $facet: {
+            totals: [
+              {
+                $group: {
+                  _id: null,
+                  cardCount: { $sum: 1 },
+                  pricedCount: { $sum: { $cond: [{ $isNumber: '$value' }, 1, 0] } },
+                  totalRetail: { $sum: '$value' },
+                  avgWeeklyChangePct: { $avg: '$summary.retail.normal.change7d' },
+                },
+              },
+            ],
+            topCards: [
+              { $match: { value: { $type: 'number' } } },
+              { $sort: { value: -1, uuid: 1 } },
+              { $limit: TOP_CARDS },
+            ],
+            cards: [
+              { $sort: { value: -1, name: 1, uuid: 1 } },
+              { $skip: (page - 1) * limit },
+              { $limit: limit },
+            ],
+          },
+        },
+      ]),
+    ]);
+
+    const totals = stats?.totals[0];
+    if (!meta && !totals) {
+      return res.status(404).json({ error: 'Set not found' });
+    }
+
+    const cardCount = totals?.cardCount ?? 0;
+    res.json({
+      code,
+      name: meta?.name ?? null,
+      releaseDate: meta?.releaseDate ?? null,
+      type: meta?.type ?? null,
+      totalSetSize: meta?.totalSetSize ?? null,
+      currency,
+      stats: {
+        cardCount,
+        pricedCount: totals?.pricedCount ?? 0,
+        totalRetail: fromBase(fx, totals?.totalRetail, currency),
+        avgWeeklyChangePct: round2(totals?.avgWeeklyChangePct ?? null),
+        topCards: (stats?.topCards ?? []).map(formatCard),
+      },
+      cards: (stats?.cards ?? []).map(formatCard),
+      total: cardCount,
+      page,
+      limit,
+      totalPages: Math.ceil(cardCount / limit),
+    });
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching set.');
+  }
+});
+
+export default router;
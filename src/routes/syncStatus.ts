@@ -0,0 +1,36 @@
+/**
+ * Goblin Bookie – Sync Status API Route
+ *
+ * - `/api/sync-status` : When prices were last updated (the last successful daily sync)
+ *
+ * Key Details:
+ * - Public and read-only, for the frontend's "prices last updated at …" line. Run details (steps,
+ *   counts, errors) stay behind the admin token on `/api/admin/sync-runs`.
+ * - Backed by the SyncRun collection that scripts/runDailySync.ts writes.
+ */
+
+import express from 'express';
+import SyncRun from '../models/SyncRun';
+import { handleRouteError } from '../utils/routeHelpers';
+
+const router = express.Router();
+
+/**
+ * GET /api/sync-status
+ *
+ * Returns { lastUpdatedAt }: the finish time of the most recent successful sync run, or null if
+ * none has been recorded yet.
+ */
+router.get('/sync-status', async (req, res) => {
+  try {
+    const run = await SyncRun.findOne({ status: 'succeeded' })
+      .sort({ startedAt: -1 })
+      .select('-_id finishedAt')
+      .lean();
+    res.json({ lastUpdatedAt: run?.finishedAt ?? null });
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching the sync status.');
+  }
+});
+
+export default router;
@@ -0,0 +1,29 @@
+/**
+ * Goblin Bookie – Vendors API Route
+ *
+ * - `/api/vendors` : Every price vendor Goblin Bookie tracks, with what it publishes
+ *
+ * Key Details:
+ * - Served straight from the vendor registry (src/utils/vendors.ts), the same list the pipeline
+ *   parses and every price route reports, so the frontend can build vendor labels, filters and
+ *   columns without hard-coding vendors.
+ * - `id` is the value used in `vendor` query params, watchlists and per-vendor price objects.
+ */
+
+import express from 'express';
+import { FINISHES, PRICE_TYPES, VENDORS } from '../utils/vendors';
+
+const router = express.Router();
+
+/**
+ * GET /api/vendors
+ *
+ * Returns { vendors, priceTypes, finishes }, where each vendor has id, displayName, currency
+ * (the currency its prices are reported in), priceTypes, finishes and purchaseUrlKey (the
+ * MTGJSON purchase-link key, or null when the vendor has no buy links).
+ */
+router.get('/vendors', (req, res) => {
+  res.json({ vendors: VENDORS, priceTypes: PRICE_TYPES, finishes: FINISHES });
+});
+
+export default router;
@@ -0,0 +1,216 @@
+/**
+ * Goblin Bookie – Watchlist API Routes
+ *
+ * CRUD endpoints for price watchlists. Alerts themselves are evaluated by the daily sync
+ * (scripts/evaluateAlerts.ts), not by these routes.
+ *
+ * - `GET    /api/watchlists`                     : List watchlists (optionally filtered by ?email=)
+ * - `GET    /api/watchlists/:id`                 : Get one watchlist
+ * - `POST   /api/watchlists`                     : Create a watchlist ({ name, email, items })
+ * - `PUT    /api/watchlists/:id`                 : Update name, email and/or items
+ * - `DELETE /api/watchlists/:id`                 : Delete a watchlist
+ * - `POST   /api/watchlists/:id/items`           : Add a single watch rule
+ * - `DELETE /api/watchlists/:id/items/:itemId`   : Remove a single watch rule
+ *
+ * Key Details:
+ * - Invalid ids return 404, schema validation failures return 400 with the Mongoose message.
+ * - Only client-owned fields are taken from request bodies; `emailConfirmed`, item `_id`s and the
+ *   alert stamps (`lastTriggeredAt`, `lastTriggeredDate`) are set by the server.
+ * - These routes are unauthenticated, so anyone can enter any `email`. A watchlist's own address
+ *   only receives alerts once an admin confirmed it (POST /api/admin/watchlists/:id/confirm-email,
+ *   ADMIN_TOKEN required); changing the email clears the confirmation. Watchlists without an
+ *   email alert the operator's EMAIL_TO.
+ */
+
+import express from 'express';
+import mongoose from 'mongoose';
+import Watchlist from '../models/Watchlist';
+import { handleRouteError } from '../utils/routeHelpers';
+
+const router = express.Router();
+
+const WATCH_ITEM_FIELDS = [
+  'uuid',
+  'vendor',
+  'priceType',
+  'finish',
+  'condition',
+  'threshold',
+  'currency',
+  'windowDays',
+];
+
+/**
+ * Helper: pick only the fields clients may set on a watch rule (never `_id` or the
+ * lastTriggered* stamps the alert run owns).
+ */
+function pickWatchItemFields(body: any) {
+  const fields: any = {};
+  for (const key of WATCH_ITEM_FIELDS) {
+    if (body?.[key] !== undefined) fields[key] = body[key];
+  }
+  return fields;
+}
+
+/** Helper: pick only the fields clients may set on a watchlist (never `emailConfirmed`). */
+function pickWatchlistFields(body: any) {
+  const fields: any = {};
+  if (body?.name !== undefined) fields.name = body.name;
+  if (body?.email !== undefined) fields.email = body.email;
+  if (body?.items !== undefined) {
+    fields.items = Array.isArray(body.items) ? body.items.map(pickWatchItemFields) : body.items;
+  }
+  return fields;
+}
+
+/**
+ * GET /api/watchlists
+ *
+ * Lists all watchlists, optionally only those for one recipient (?email=).
+ */
+router.get('/watchlists', async (req, res) => {
+  try {
+    const filter: any = {};
+    if (req.query.email) filter.email = String(req.query.email);
+    const watchlists = await Watchlist.find(filter).select('-__v').lean();
+    res.json(watchlists);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while listing watchlists.');
+  }
+});
+
+/**
+ * GET /api/watchlists/:id
+ */
+router.get('/watchlists/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    const watchlist = await Watchlist.findById(req.params.id).select('-__v').lean();
+    if (!watchlist) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    res.json(watchlist);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while fetching watchlist.');
+  }
+});
+
+/**
+ * POST /api/watchlists
+ *
+ * Creates a watchlist. Body: { name, email?, items?: [{ uuid, condition, threshold, ... }] }
+ */
+router.post('/watchlists', async (req, res) => {
+  try {
+    const watchlist = await Watchlist.create(pickWatchlistFields(req.body));
+    res.status(201).json(watchlist);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while creating watchlist.');
+  }
+});
+
+/**
+ * PUT /api/watchlists/:id
+ *
+ * Updates name, email and/or the full items list. A changed email needs a new admin
+ * confirmation before alerts are mailed to it. Replaced items are new rules: their alert stamps
+ * start empty.
+ */
+router.put('/watchlists/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    const fields = pickWatchlistFields(req.body);
+    if (fields.email !== undefined) {
+      // A different address has to be confirmed again before it receives alerts
+      await Watchlist.updateOne(
+        { _id: req.params.id, email: { $ne: fields.email } },
+        { $set: { emailConfirmed: false } }
+      );
+    }
+    const watchlist = await Watchlist.findByIdAndUpdate(
+      req.params.id,
+      { $set: fields },
+      { new: true, runValidators: true }
+    )
+      .select('-__v')
+      .lean();
+    if (!watchlist) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    res.json(watchlist);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while updating watchlist.');
+  }
+});
+
+/**
+ * DELETE /api/watchlists/:id
+ */
+router.delete('/watchlists/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    const result = await Watchlist.findByIdAndDelete(req.params.id);
+    if (!result) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    res.status(204).end();
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while deleting watchlist.');
+  }
+});
+
+/**
+ * POST /api/watchlists/:id/items
+ *
+ * Adds one watch rule to an existing watchlist and returns the updated watchlist.
+ */
+router.post('/watchlists/:id/items', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    const watchlist = await Watchlist.findById(req.params.id);
+    if (!watchlist) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+    watchlist.items.push(pickWatchItemFields(req.body));
+    await watchlist.save();
+    res.status(201).json(watchlist);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while adding watchlist item.');
+  }
+});
+
+/**
+ * DELETE /api/watchlists/:id/items/:itemId
+ *
+ * Removes one watch rule and returns the updated watchlist.
+ */
+router.delete('/watchlists/:id/items/:itemId', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id) || !mongoose.isValidObjectId(req.params.itemId)) {
+      return res.status(404).json({ error: 'Watchlist item not found' });
+    }
+    const watchlist = await Watchlist.findOneAndUpdate(
+      { _id: req.params.id, 'items._id': req.params.itemId },
+      { $pull: { items: { _id: req.params.itemId } } },
+      { new: true }
+    )
+      .select('-__v')
+      .lean();
+    if (!watchlist) {
+      return res.status(404).json({ error: 'Watchlist item not found' });
+    }
+    res.json(watchlist);
+  } catch (err) {
+    handleRouteError(res, err, 'Server error while removing watchlist item.');
+  }
+});
+
+export default router;
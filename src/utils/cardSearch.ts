@@ -0,0 +1,301 @@
+/**
+ * Goblin Bookie – Card Search Query Builder
+ *
+ * PURPOSE:
+ *   Turns GET /api/cards query parameters into a MongoDB filter and sort over the Card collection,
+ *   so search, filtering and sorting all happen in the database (no post-filtering in memory).
+ *
+ * CONTEXT:
+ *   - Price filters and sorts read the precomputed, indexed `summary` subdocument
+ *     (see src/utils/priceSummary.ts), never raw price history.
+ *   - Invalid parameters are reported back as a message so the route can answer 400.
+ *
+ * SUPPORTED PARAMETERS:
+ *   - name:      Partial card name; accent/punctuation-insensitive and safely escaped (matched
+ *                against Card.normalizedName). Callers may pass fuzzy-matched names instead.
+ *   - set:       Set code, or comma-separated set codes (e.g. "MH3,OTJ")
+ *   - language:  Language, or comma-separated languages (MTGJSON names, case-insensitive, e.g.
+ *                "japanese,german"); default DEFAULT_LANGUAGE, like the set routes
+ *   - rarity:    Rarity, or comma-separated rarities (e.g. "rare,mythic")
+ *   - colors:    Color letters the card must include (e.g. "G" or "UG"); "C" = colorless only
+ *   - identity:  Commander color identity the card must fit within (e.g. "BG" allows mono-B, mono-G,
+ *                BG and colorless cards)
+ *   - type:      Text in the type line (e.g. "creature", "elf")
+ *   - text:      Text in the oracle text
+ *   - artist:    Text in the artist credit
+ *   - legal:     Format the card must be legal in (e.g. "commander", "modern")
+ *   - manaValue / minManaValue / maxManaValue
+ *   - finish:    'normal' | 'foil' | 'etched' — only cards priced in this finish (default 'normal',
+ *                which doesn't filter)
+ *   - priceType: 'retail' | 'buylist' — which price minPrice/maxPrice/sort use (default 'retail')
+ *   - vendor:    Use this vendor's latest price instead of the cross-vendor average
+ *   - minPrice / maxPrice: In the requested `?currency=` (converted to the summary's base currency
+ *                through the `toBase` option)
+ *   - sort:      'relevance' | 'name' | 'price' | 'change' (weekly % change)
+ *                (default 'relevance' when searching by name, otherwise 'name')
+ *   - order:     'asc' | 'desc' (default 'asc')
+ */
+
+import { FINISHES, PRICE_TYPES, VENDOR_IDS } from './vendors';
+import { escapeRegex, normalizeName, MAX_QUERY_LENGTH } from './nameSearch';
+
+const SORTS = ['relevance', 'name', 'price', 'change'];
+const ORDERS = ['asc', 'desc'];
+const RARITIES = ['common', 'uncommon', 'rare', 'mythic', 'special', 'bonus'];
+const COLORS = ['W', 'U', 'B', 'R', 'G'];
+const MAX_TEXT_FILTER_LENGTH = 100;
+
+export type CardSearch = {
+  filter: any;
+  sort: any;
+  finish: string;
+  /** Extra computed fields the sort depends on (relevance rank), for an $addFields stage. */
+  addFields?: any;
+  error?: string;
+};
+
+/** Reads an optional query param as a trimmed string. */
+function param(query: any, key: string): string | undefined {
+  const value = query[key];
+  if (value === undefined || value === '') return undefined;
+  return String(value).trim();
+}
+
+/** Case-insensitive "contains" match for user text, safely escaped. */
+function containsText(text: string) {
+  return { $regex: escapeRegex(text), $options: 'i' };
+}
+
+/**
+ * Parses a color string ("UG", "u,g", "C") into color letters; null if it has an unknown letter.
+ * An empty array means colorless.
+ */
+function parseColors(value: string): string[] | null {
+  const letters = value.toUpperCase().replace(/[\s,]/g, '').split('');
+  if (letters.every((l) => l === 'C')) return [];
+  if (!letters.every((l) => COLORS.includes(l))) return null;
+  return Array.from(new Set(letters));
+}
+
+/**
+ * Language card search and the set routes list and count when no `language` is given, so every
+ * endpoint sees one printing per card by default.
+ */
+export const DEFAULT_LANGUAGE = 'English';
+
+/**
+ * Turns a comma-separated `language` parameter into a Card.language filter value, or undefined
+ * when absent. MTGJSON stores title-cased names ("Japanese", "Portuguese (Brazil)"), so input is
+ * title-cased for an exact, indexed match.
+ */
+export function languageFilter(value: string | undefined) {
+  if (!value) return undefined;
+  const languages = value
+    .split(',')
+    .map((l) =>
+      l
+        .trim()
+        .toLowerCase()
+        .replace(/(^|[\s(])(\p{L})/gu, (m) => m.toUpperCase())
+    )
+    .filter(Boolean);
+  return languages.length === 1 ? languages[0] : { $in: languages };
+}
+
+/**
+ * Adds the card metadata filters (language, rarity, colors, identity, type, text, artist, legality,
+ * mana value) to `filter`. Returns an error message for invalid values.
+ */
+function addMetadataFilters(query: any, filter: any): string | undefined {
+  const language = param(query, 'language');
+  if (language && language.length > MAX_TEXT_FILTER_LENGTH) {
+    return `language must be at most ${MAX_TEXT_FILTER_LENGTH} characters`;
+  }
+  filter.language = languageFilter(language || DEFAULT_LANGUAGE);
+
+  const rarity = param(query, 'rarity');
+  if (rarity) {
+    const rarities = rarity.split(',').map((r) => r.trim().toLowerCase());
+    if (!rarities.every((r) => RARITIES.includes(r))) {
+      return `rarity must be one or more of: ${RARITIES.join(', ')}`;
+    }
+    filter.rarity = rarities.length === 1 ? rarities[0] : { $in: rarities };
+  }
+
+  const colors = param(query, 'colors');
+  if (colors) {
+    const letters = parseColors(colors);
+    if (!letters) return `colors must be made of ${COLORS.join(', ')} or C (colorless)`;
+    filter.colors = letters.length ? { $all: letters } : { $size: 0 };
+  }
+
+  const identity = param(query, 'identity');
+  if (identity) {
+    const letters = parseColors(identity);
+    if (!letters) return `identity must be made of ${COLORS.join(', ')} or C (colorless)`;
+    // No identity color outside the allowed set
+    filter.colorIdentity = { $exists: true, $not: { $elemMatch: { $nin: letters } } };
+  }
+
+  for (const [key, field] of [
+    ['type', 'typeLine'],
+    ['text', 'oracleText'],
+    ['artist', 'artist'],
+  ]) {
+    const value = param(query, key);
+    if (!value) continue;
+    if (value.length > MAX_TEXT_FILTER_LENGTH) {
+      return `${key} must be at most ${MAX_TEXT_FILTER_LENGTH} characters`;
+    }
+    filter[field] = containsText(value);
+  }
+
+  const legal = param(query, 'legal');
+  if (legal) {
+    if (!/^[a-z]+$/i.test(legal)) return 'legal must be a format name (e.g. commander)';
+    filter[`legalities.${legal.toLowerCase()}`] = 'legal';
+  }
+
+  const manaValue = param(query, 'manaValue');
+  const minManaValue = param(query, 'minManaValue');
+  const maxManaValue = param(query, 'maxManaValue');
+  for (const [key, value] of [
+    ['manaValue', manaValue],
+    ['minManaValue', minManaValue],
+    ['maxManaValue', maxManaValue],
+  ]) {
+    if (value !== undefined && isNaN(Number(value))) return `${key} must be a number`;
+  }
+  if (manaValue !== undefined) {
+    filter.manaValue = Number(manaValue);
+  } else if (minManaValue !== undefined || maxManaValue !== undefined) {
+    filter.manaValue = {};
+    if (minManaValue !== undefined) filter.manaValue.$gte = Number(minManaValue);
+    if (maxManaValue !== undefined) filter.manaValue.$lte = Number(maxManaValue);
+  }
+  return undefined;
+}
+
+/**
+ * Relevance rank of a name match, computed in MongoDB: exact (0), prefix (1), word prefix (2),
+ * anywhere else (3).
+ */
+function relevanceExpression(normalized: string) {
+  return {
+    $switch: {
+      branches: [
+        { case: { $eq: ['$normalizedName', normalized] }, then: 0 },
+        { case: { $eq: [{ $indexOfCP: ['$normalizedName', normalized] }, 0] }, then: 1 },
+        { case: { $gte: [{ $indexOfCP: ['$normalizedName', ` ${normalized}`] }, 0] }, then: 2 },
+      ],
+      default: 3,
+    },
+  };
+}
+
+export type CardSearchOptions = {
+  /** Best-first fuzzy-matched names (from rankNames) to match instead of the `name` substring. */
+  fuzzyNames?: string[];
+  /** Converts a price bound from the requested currency into the summary's base currency. */
+  toBase?: (amount: number) => number;
+};
+
+/**
+ * Builds the Mongo filter and sort for a card search. Sets `error` for invalid parameters.
+ * With `fuzzyNames`, matches those exact names and ranks results in that order.
+ */
+export function buildCardSearch(query: any, options: CardSearchOptions = {}): CardSearch {
+  const name = param(query, 'name');
+  const finish = param(query, 'finish') || 'normal';
+  const priceType = param(query, 'priceType') || 'retail';
+  const vendor = param(query, 'vendor');
+  const sort = param(query, 'sort') || (name ? 'relevance' : 'name');
+  const order = param(query, 'order') || 'asc';
+  const result: CardSearch = { filter: {}, sort: {}, finish };
+
+  if (!FINISHES.includes(finish)) {
+    return { ...result, error: `finish must be one of: ${FINISHES.join(', ')}` };
+  }
+  if (!PRICE_TYPES.includes(priceType as any)) {
+    return { ...result, error: `priceType must be one of: ${PRICE_TYPES.join(', ')}` };
+  }
+  if (vendor && !VENDOR_IDS.includes(vendor)) {
+    return { ...result, error: `vendor must be one of: ${VENDOR_IDS.join(', ')}` };
+  }
+  if (!SORTS.includes(sort)) {
+    return { ...result, error: `sort must be one of: ${SORTS.join(', ')}` };
+  }
+  if (!ORDERS.includes(order)) {
+    return { ...result, error: `order must be one of: ${ORDERS.join(', ')}` };
+  }
+  if (name && name.length > MAX_QUERY_LENGTH) {
+    return { ...result, error: `name must be at most ${MAX_QUERY_LENGTH} characters` };
+  }
+
+  const filter: any = {};
+
+  const normalized = name ? normalizeName(name) : '';
+  if (options.fuzzyNames) {
+    filter.name = { $in: options.fuzzyNames };
+  } else if (normalized) {
+    // Normalized input contains only letters, digits and spaces; escaping is belt and braces
+    filter.normalizedName = { $regex: escapeRegex(normalized) };
+  }
+
+  const set = param(query, 'set');
+  if (set) {
+    const codes = set.split(',').map((code) => code.trim().toUpperCase());
+    filter.setCode = codes.length === 1 ? codes[0] : { $in: codes };
+  }
+
+  const metadataError = addMetadataFilters(query, filter);
+  if (metadataError) return { ...result, error: metadataError };
+
+  const priceField = vendor
+    ? `summary.vendors.${vendor}.${priceType}.${finish}`
+    : `summary.${priceType}.${finish}.avg`;
+  const changeField = `summary.${priceType}.${finish}.change7d`;
+
+  // Finish/vendor filters: only cards that actually have that price
+  if (finish !== 'normal' || vendor) {
+    filter[priceField] = { $type: 'number' };
+  }
+
+  const minPrice = param(query, 'minPrice');
+  const maxPrice = param(query, 'maxPrice');
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    const toBase = options.toBase || ((amount: number) => amount);
+    const range: any = { $type: 'number' };
+    if (minPrice !== undefined) {
+      if (isNaN(Number(minPrice))) return { ...result, error: 'minPrice must be a number' };
+      range.$gte = toBase(Number(minPrice));
+    }
+    if (maxPrice !== undefined) {
+      if (isNaN(Number(maxPrice))) return { ...result, error: 'maxPrice must be a number' };
+      range.$lte = toBase(Number(maxPrice));
+    }
+    filter[priceField] = range;
+  }
+
+  const direction = order === 'desc' ? -1 : 1;
+  if (sort === 'price') {
+    // Cards without a price would otherwise sort first; exclude them
+    filter[priceField] = { $type: 'number', ...filter[priceField] };
+    result.sort = { [priceField]: direction, uuid: 1 };
+  } else if (sort === 'change') {
+    filter[changeField] = { $type: 'number' };
+    result.sort = { [changeField]: direction, uuid: 1 };
+  } else if (sort === 'relevance' && (options.fuzzyNames || normalized)) {
+    result.addFields = {
+      _relevance: options.fuzzyNames
+        ? { $indexOfArray: [options.fuzzyNames, '$name'] }
+        : relevanceExpression(normalized),
+    };
+    result.sort = { _relevance: direction, name: 1, uuid: 1 };
+  } else {
+    result.sort = { name: direction, uuid: 1 };
+  }
+
+  result.filter = filter;
+  return result;
+}
@@ -0,0 +1,124 @@
+/**
+ * Goblin Bookie – Currency Conversion
+ *
+ * PURPOSE:
+ *   Converts prices between currencies using the dated rates in the FxRate collection, so that
+ *   cross-vendor aggregates never mix EUR and USD.
+ *
+ * CONTEXT:
+ *   - Stored aggregates (Card.summary averages, movers, arbitrage, portfolio snapshots) are kept in
+ *     BASE_CURRENCY; routes convert them to the `?currency=` the client asked for.
+ *   - Per-vendor raw prices stay in their native currency in PricePoint and are converted with the
+ *     rate for their own date.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - All rates are loaded once (one small document per day) and cached for FX_CACHE_TTL_MS.
+ *   - A date without its own rate uses the latest earlier rate; dates before the first stored rate
+ *     use the first one. With no rates at all, only same-currency conversion succeeds (others
+ *     return null and are left out of averages).
+ */
+
+import FxRate from '../models/FxRate';
+import { getVendorCurrency, PriceConverter, round2 } from './priceHelpers';
+
+export const BASE_CURRENCY = 'USD';
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR'];
+const FX_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Converts an amount between currencies on a date (latest rate when no date); null = no rate. */
+export type FxConverter = (
+  amount: number,
+  from: string,
+  to: string,
+  date?: string
+) => number | null;
+
+type RateEntry = { date: string; rates: Record<string, number> };
+
+let cachedRates: RateEntry[] | null = null;
+let cachedAt = 0;
+
+/** Returns the rate entry for a date: latest on or before it, else the earliest (null if none). */
+function findRates(entries: RateEntry[], date?: string): RateEntry | null {
+  if (!entries.length) return null;
+  if (!date) return entries[entries.length - 1];
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].date <= date) return entries[i];
+  }
+  return entries[0];
+}
+
+/** Builds a converter over a sorted list of USD-based rate entries. */
+export function createFxConverter(entries: RateEntry[]): FxConverter {
+  return (amount, from, to, date) => {
+    if (from === to) return amount;
+    const entry = findRates(entries, date);
+    if (!entry) return null;
+
+    const fromRate = from === BASE_CURRENCY ? 1 : entry.rates[from];
+    const toRate = to === BASE_CURRENCY ? 1 : entry.rates[to];
+    if (!fromRate || !toRate) return null;
+    return (amount / fromRate) * toRate;
+  };
+}
+
+/**
+ * Returns a converter backed by every stored FX rate (cached).
+ */
+export async function getFxConverter(): Promise<FxConverter> {
+  if (!cachedRates || Date.now() - cachedAt > FX_CACHE_TTL_MS) {
+    const docs = await FxRate.find().sort({ date: 1 }).lean();
+    cachedRates = docs.map((doc: any) => ({
+      date: doc.date,
+      rates: Object.fromEntries(
+        doc.rates instanceof Map ? doc.rates : Object.entries(doc.rates || {})
+      ),
+    }));
+    cachedAt = Date.now();
+  }
+  return createFxConverter(cachedRates);
+}
+
+/**
+ * Adapts an FxConverter into a PriceConverter for one card's price tree: each vendor's price is
+ * converted from that vendor's currency into `to`, using the rate for the price's date.
+ */
+export function vendorPriceConverter(fx: FxConverter, prices: any, to: string): PriceConverter {
+  return (price, vendor, date) => fx(price, getVendorCurrency(prices, vendor), to, date);
+}
+
+/**
+ * Converts a stored BASE_CURRENCY amount (summary, movers, arbitrage...) into `to` at the latest
+ * rate, rounded to cents. Null in, null out.
+ */
+export function fromBase(fx: FxConverter, amount: number | null | undefined, to: string) {
+  if (typeof amount !== 'number') return null;
+  return round2(fx(amount, BASE_CURRENCY, to));
+}
+
+export type CurrencyRequest = {
+  currency: string;
+  fx: FxConverter;
+  error?: string;
+  /** Set with `error` when the currency is supported but no rate for it has been loaded yet. */
+  missingRate?: boolean;
+};
+
+/**
+ * Resolves a route's `?currency=` parameter (default BASE_CURRENCY) together with the FX
+ * converter. Sets `error` when the currency is unsupported or no rate for it has been loaded
+ * (the latter also sets `missingRate`, for routes that can answer with native prices instead).
+ */
+export async function resolveCurrency(value: any): Promise<CurrencyRequest> {
+  const currency =
+    value === undefined || value === '' ? BASE_CURRENCY : String(value).toUpperCase();
+  const fx = await getFxConverter();
+
+  if (!SUPPORTED_CURRENCIES.includes(currency)) {
+    return { currency, fx, error: `currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` };
+  }
+  if (fx(1, BASE_CURRENCY, currency) === null) {
+    return { currency, fx, error: `No exchange rate loaded for ${currency}`, missingRate: true };
+  }
+  return { currency, fx };
+}
@@ -0,0 +1,172 @@
+/**
+ * Goblin Bookie – Price History Export
+ *
+ * PURPOSE:
+ *   Streams raw PricePoint history (one row per vendor/type/finish/date, in the vendor's own
+ *   currency) as CSV, a JSON array or NDJSON, for analysts pulling card history into spreadsheets.
+ *
+ * CONTEXT:
+ *   - Used by src/routes/history.ts for both the single-card and the bulk (set / uuid list) export.
+ *   - Unlike the card detail route's `history` (a cross-vendor average per date), rows are the
+ *     stored points themselves, so nothing is averaged or converted.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Points are read with a Mongoose cursor sorted on the unique PricePoint index
+ *     (uuid, vendor, priceType, finish, date) and written row by row, waiting for the response to
+ *     drain, so memory use doesn't grow with the export size.
+ *   - Card name and set code are joined from a uuid -> card map the caller loads up front.
+ *   - The export stops early when the client disconnects. Once streaming has started an error can
+ *     no longer become a JSON error response, so it is logged and the connection is closed.
+ */
+
+import express from 'express';
+import PricePoint from '../models/PricePoint';
+import { FINISHES, PRICE_TYPES, VENDOR_IDS } from './vendors';
+
+export const HISTORY_FORMATS = ['csv', 'json', 'ndjson'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CSV_COLUMNS = [
+  'uuid',
+  'name',
+  'set',
+  'vendor',
+  'priceType',
+  'finish',
+  'date',
+  'price',
+  'currency',
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+export type ExportCard = { uuid: string; name?: string | null; setCode?: string | null };
+
+/**
+ * Reads `format` plus the vendor/type/finish (comma-separated) and since/until (YYYY-MM-DD)
+ * filters from a query string. Returns the PricePoint filter (without uuids) or an error message.
+ */
+export function parseHistoryQuery(query: any): {
+  format: string;
+  filter: Record<string, any>;
+  error?: string;
+} {
+  const format = String(query.format || 'csv').toLowerCase();
+  const filter: Record<string, any> = {};
+  if (!HISTORY_FORMATS.includes(format)) {
+    return { format, filter, error: `format must be one of: ${HISTORY_FORMATS.join(', ')}` };
+  }
+
+  const lists: [string, string, string[]][] = [
+    ['vendor', 'vendor', VENDOR_IDS],
+    ['type', 'priceType', PRICE_TYPES],
+    ['finish', 'finish', FINISHES],
+  ];
+  for (const [param, field, allowed] of lists) {
+    if (!query[param]) continue;
+    const values = String(query[param])
+      .split(',')
+      .map((v) => v.trim())
+      .filter(Boolean);
+    if (!values.every((v) => allowed.includes(v))) {
+      return { format, filter, error: `${param} must be one of: ${allowed.join(', ')}` };
+    }
+    filter[field] = { $in: values };
+  }
+
+  for (const param of ['since', 'until']) {
+    if (query[param] && !DATE_PATTERN.test(String(query[param]))) {
+      return { format, filter, error: `${param} must be a date (YYYY-MM-DD)` };
+    }
+  }
+  if (query.since || query.until) {
+    filter.date = {};
+    if (query.since) filter.date.$gte = String(query.since);
+    if (query.until) filter.date.$lte = String(query.until);
+  }
+  return { format, filter };
+}
+
+/** Quotes a CSV field when it contains a separator, quote or line break. */
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Writes a chunk, waiting for the response to drain (or close) when its buffer is full. */
+async function write(res: express.Response, chunk: string) {
+  if (res.write(chunk)) return;
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+}
+
+/**
+ * Streams every point of the given cards matching `filter` to the response in `format`, as a
+ * download named `<filename>.<format>`.
+ */
+export async function streamHistoryExport(
+  res: express.Response,
+  cards: ExportCard[],
+  filter: Record<string, any>,
+  format: string,
+  filename: string
+) {
+  const cardsByUuid = new Map(cards.map((card) => [card.uuid, card]));
+  const cursor = PricePoint.find({ ...filter, uuid: { $in: Array.from(cardsByUuid.keys()) } })
+    .sort({ uuid: 1, vendor: 1, priceType: 1, finish: 1, date: 1 })
+    .select('-_id uuid vendor priceType finish date price currency')
+    .lean()
+    .cursor();
+
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+
+  let rows = 0;
+  try {
+    if (format === 'csv') await write(res, CSV_COLUMNS.join(',') + '\n');
+    if (format === 'json') await write(res, '[');
+
+    for await (const point of cursor) {
+      if (res.destroyed) break;
+      const card = cardsByUuid.get(point.uuid);
+      const row = {
+        uuid: point.uuid,
+        name: card?.name ?? null,
+        set: card?.setCode ?? null,
+        vendor: point.vendor,
+        priceType: point.priceType,
+        finish: point.finish,
+        date: point.date,
+        price: point.price,
+        currency: point.currency ?? null,
+      };
+
+      if (format === 'csv') {
+        await write(res, CSV_COLUMNS.map((col) => csvField((row as any)[col])).join(',') + '\n');
+      } else if (format === 'json') {
+        await write(res, (rows ? ',\n' : '\n') + JSON.stringify(row));
+      } else {
+        await write(res, JSON.stringify(row) + '\n');
+      }
+      rows++;
+    }
+
+    if (format === 'json') await write(res, rows ? '\n]\n' : ']\n');
+    res.end();
+  } catch (err) {
+    await cursor.close();
+    console.error(err);
+    res.destroy();
+  }
+}
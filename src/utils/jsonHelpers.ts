@@ -28,6 +28,14 @@ export function logInfo(tag: string, message: string) {
   logger.info(`${tag} ${message}`);
 }
 
+/**
+ * Logs a warning-level message with a context tag (step/module name).
+ * Example: logWarn('[loadFxRates.ts]', 'No FX rate file at data/fxRates.json')
+ */
+export function logWarn(tag: string, message: string) {
+  logger.warn(`${tag} ${message}`);
+}
+
 /**
  * Logs an error-level message with a context tag (step/module name).
  * Example: logError('parsePrices', 'Failed to parse: Unexpected token')
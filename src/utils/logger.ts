@@ -3,12 +3,12 @@
  *
  * PURPOSE:
  *   Configures a unified, timestamped logger for all Goblin Bookie backend scripts.
- *   Every log message (info or error) from the sync pipeline is routed through this Winston logger,
+ *   Every log message (info, warning or error) from the sync pipeline is routed through this Winston logger,
  *   ensuring all output is visible both in the terminal and in the persistent /logs/sync.log file.
  *
  * CONTEXT:
- *   - Used by the logInfo and logError helpers in jsonHelpers.ts (and thus every pipeline script).
- *   - Timestamps and log levels (INFO, ERROR) are included on every line for audit/debugging.
+ *   - Used by the logInfo, logWarn and logError helpers in jsonHelpers.ts (and thus every pipeline script).
+ *   - Timestamps and log levels (INFO, WARN, ERROR) are included on every line for audit/debugging.
  *   - The /logs directory is auto-created if missing, so logging never fails due to a missing folder.
  *   - Output is always found at project-root/logs/sync.log.
  *
@@ -0,0 +1,60 @@
+/**
+ * Goblin Bookie – Email Helper (nodemailer)
+ *
+ * PURPOSE:
+ *   Creates a single nodemailer transport from the EMAIL_* settings in .env and exposes a
+ *   small sendMail wrapper for pipeline scripts (price alerts, src/utils/notifications.ts).
+ *
+ * CONFIGURATION:
+ *   - EMAIL_FROM / EMAIL_PASS: sender account and app password (Gmail by default).
+ *   - EMAIL_TO:                fallback recipient when a caller doesn't specify one.
+ *   - SMTP_HOST / SMTP_PORT:   optional; when set, a plain SMTP server is used instead of Gmail
+ *                              (handy for a local SMTP stand-in during testing).
+ */
+
+import nodemailer from 'nodemailer';
+
+let transporter: nodemailer.Transporter | null = null;
+
+/**
+ * True when enough settings exist to send mail (a sender, plus a password unless using SMTP_HOST).
+ */
+export function isMailConfigured(): boolean {
+  return Boolean(process.env.EMAIL_FROM && (process.env.SMTP_HOST || process.env.EMAIL_PASS));
+}
+
+function getTransporter(): nodemailer.Transporter {
+  if (transporter) return transporter;
+
+  if (process.env.SMTP_HOST) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: Number(process.env.SMTP_PORT) === 465,
+      auth: process.env.EMAIL_PASS
+        ? { user: process.env.EMAIL_FROM, pass: process.env.EMAIL_PASS }
+        : undefined,
+    });
+  } else {
+    transporter = nodemailer.createTransport({
+      service: 'gmail',
+      auth: { user: process.env.EMAIL_FROM, pass: process.env.EMAIL_PASS },
+    });
+  }
+  return transporter;
+}
+
+/**
+ * Sends a plain-text email. Falls back to EMAIL_TO when no recipient is given.
+ */
+export async function sendMail(options: { to?: string; subject: string; text: string }) {
+  const to = options.to || process.env.EMAIL_TO;
+  if (!to) throw new Error('No email recipient configured (set EMAIL_TO)');
+
+  await getTransporter().sendMail({
+    from: process.env.EMAIL_FROM,
+    to,
+    subject: options.subject,
+    text: options.text,
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Goblin Bookie – Card Name Search
+ *
+ * PURPOSE:
+ *   Safe, accent-insensitive and typo-tolerant card name matching for the search and
+ *   autocomplete routes.
+ *
+ * CONTEXT:
+ *   - normalizeName is applied once per card in parseCards.ts (stored as Card.normalizedName) and
+ *     to every incoming query, so "Lim-Dûl" and "lim dul" compare equal.
+ *   - User input is never used as a raw regex: it is normalized (which strips every regex
+ *     metacharacter) and escaped, and its length is capped.
+ *   - Fuzzy matching ("lightning blot") runs against an in-memory index of distinct card names
+ *     (a few tens of thousands of short strings), refreshed every NAME_INDEX_TTL_MS.
+ *
+ * RANKING (score 0..1):
+ *   exact (1) > prefix (0.9) > word prefix (0.8) > substring (0.7) > fuzzy (token edit similarity,
+ *   scaled below 0.7 and only kept at or above FUZZY_MIN_SCORE).
+ */
+
+import Card from '../models/Card';
+
+export const MAX_QUERY_LENGTH = 100;
+const NAME_INDEX_TTL_MS = 60 * 60 * 1000;
+const FUZZY_MIN_SCORE = 0.45;
+
+type NameEntry = { name: string; normalized: string; tokens: string[] };
+
+let nameIndex: NameEntry[] = [];
+let nameIndexLoadedAt = 0;
+let nameIndexLoading: Promise<NameEntry[]> | null = null;
+
+/**
+ * Lowercases, strips diacritics and punctuation, and collapses whitespace.
+ * e.g. "Lim-Dûl's Vault" -> "lim duls vault"
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/** Escapes every regex metacharacter so a string can be embedded in a pattern literally. */
+export function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent transpositions
+ * (optimal string alignment), so "blot" -> "bolt" is a single edit.
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) d.push([i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/** Similarity of two tokens in 0..1 (1 = identical); a token that prefixes the other counts fully. */
+function tokenSimilarity(query: string, candidate: string): number {
+  if (candidate.startsWith(query)) return 1;
+  const maxLen = Math.max(query.length, candidate.length);
+  if (Math.abs(query.length - candidate.length) > maxLen / 2) return 0;
+  return 1 - editDistance(query, candidate) / maxLen;
+}
+
+/**
+ * Scores how well a normalized candidate name matches a normalized query (0 = no match).
+ */
+export function scoreName(query: string, candidate: string, candidateTokens?: string[]): number {
+  if (!query) return 0;
+  if (candidate === query) return 1;
+  if (candidate.startsWith(query)) return 0.9;
+  if (candidate.includes(` ${query}`)) return 0.8;
+  if (candidate.includes(query)) return 0.7;
+
+  // Fuzzy: every query token must resemble some candidate token
+  const tokens = candidateTokens || candidate.split(' ');
+  const queryTokens = query.split(' ');
+  let total = 0;
+  for (const qt of queryTokens) {
+    let best = 0;
+    for (const ct of tokens) best = Math.max(best, tokenSimilarity(qt, ct));
+    if (best < 0.6) return 0;
+    total += best;
+  }
+  // Penalize candidates with many extra words, and keep fuzzy scores below substring matches
+  const coverage = queryTokens.length / Math.max(tokens.length, queryTokens.length);
+  const score = (total / queryTokens.length) * (0.75 + 0.25 * coverage) * 0.69;
+  return score >= FUZZY_MIN_SCORE ? score : 0;
+}
+
+/**
+ * Returns the cached list of distinct card names, reloading it from MongoDB when stale.
+ */
+async function getNameIndex(): Promise<NameEntry[]> {
+  if (nameIndex.length && Date.now() - nameIndexLoadedAt < NAME_INDEX_TTL_MS) return nameIndex;
+  if (!nameIndexLoading) {
+    nameIndexLoading = Card.distinct('name')
+      .then((names: string[]) => {
+        nameIndex = names
+          .filter((name) => typeof name === 'string' && name)
+          .map((name) => {
+            const normalized = normalizeName(name);
+            return { name, normalized, tokens: normalized.split(' ') };
+          });
+        nameIndexLoadedAt = Date.now();
+        return nameIndex;
+      })
+      .finally(() => {
+        nameIndexLoading = null;
+      });
+  }
+  return nameIndexLoading;
+}
+
+/**
+ * Ranks distinct card names against a free-text query and returns the best `limit` names,
+ * best match first (ties broken alphabetically).
+ */
+export async function rankNames(query: string, limit: number): Promise<string[]> {
+  const normalized = normalizeName(query.slice(0, MAX_QUERY_LENGTH));
+  if (!normalized) return [];
+
+  const index = await getNameIndex();
+  const scored: { name: string; score: number }[] = [];
+  for (const entry of index) {
+    const score = scoreName(normalized, entry.normalized, entry.tokens);
+    if (score > 0) scored.push({ name: entry.name, score });
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return scored.slice(0, limit).map((s) => s.name);
+}
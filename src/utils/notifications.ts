@@ -0,0 +1,79 @@
+/**
+ * Goblin Bookie – Operator Notifications
+ *
+ * PURPOSE:
+ *   Sends operator notifications (pipeline failures, suspicious sync counts) to every configured
+ *   channel: email via src/utils/mailer.ts and a generic JSON webhook.
+ *
+ * CONFIGURATION:
+ *   - Email:   the existing EMAIL_* / SMTP_* settings; sent to EMAIL_TO.
+ *   - Webhook: NOTIFY_WEBHOOK_URL receives a POST with `{ level, subject, text, details }` as JSON
+ *              (works with a local HTTP stand-in, or chat tools that accept incoming webhooks).
+ *   - With no channel configured, notifications are only logged.
+ *
+ * ERROR HANDLING:
+ *   - A failing channel is logged and never throws, so notifying can't mask the original
+ *     problem (or fail an otherwise healthy run).
+ */
+
+import { isMailConfigured, sendMail } from './mailer';
+import { logInfo, logError } from './jsonHelpers';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export type Notification = {
+  /** 'error' for failures, 'warning' for anomalies that still completed. */
+  level: 'error' | 'warning';
+  subject: string;
+  text: string;
+  /** Structured payload for the webhook (e.g. the sync run record). */
+  details?: unknown;
+};
+
+/** Names of the channels that would receive a notification right now. */
+export function configuredChannels(): string[] {
+  const channels: string[] = [];
+  if (isMailConfigured() && process.env.EMAIL_TO) channels.push('email');
+  if (process.env.NOTIFY_WEBHOOK_URL) channels.push('webhook');
+  return channels;
+}
+
+async function postWebhook(url: string, notification: Notification) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(notification),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+}
+
+/**
+ * Sends a notification to every configured channel (never throws).
+ */
+export async function notify(notification: Notification) {
+  const channels = configuredChannels();
+  if (!channels.length) {
+    logInfo(
+      '[notifications.ts]',
+      `No notification channel configured: ${notification.subject}\n${notification.text}`
+    );
+    return;
+  }
+
+  for (const channel of channels) {
+    try {
+      if (channel === 'email') {
+        await sendMail({ subject: notification.subject, text: notification.text });
+      } else {
+        await postWebhook(process.env.NOTIFY_WEBHOOK_URL!, notification);
+      }
+      logInfo('[notifications.ts]', `Sent "${notification.subject}" via ${channel}`);
+    } catch (err: any) {
+      logError(
+        '[notifications.ts]',
+        `Could not send "${notification.subject}" via ${channel}: ${err?.message || err}`
+      );
+    }
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Goblin Bookie – Pipeline Step Interface
+ *
+ * PURPOSE:
+ *   The common shape every daily-sync step exports, plus the helpers that run a step either inside
+ *   the in-process orchestrator (scripts/runDailySync.ts) or on its own from the command line.
+ *
+ * CONTEXT:
+ *   - Each script in /scripts exports one PipelineStep and only runs it when executed directly
+ *     (`require.main === module`), so the orchestrator can import every step without side effects.
+ *   - Steps declare the /temp files they read and write; the orchestrator checks inputs before a
+ *     step starts and outputs after it finishes, so a resumed run fails fast with a clear message.
+ *   - Steps never open or close MongoDB themselves: the orchestrator connects once for the whole
+ *     run, runStandalone connects for a single step.
+ *
+ * ERROR HANDLING:
+ *   - A step signals failure by throwing (or rejecting). runStandalone logs it and exits with code 1,
+ *     so failures are always visible to whatever launched the script.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { logInfo, logError, ensureDirExists } from './jsonHelpers';
+
+dotenv.config();
+
+/** Working directory shared by every step (project-root/temp). */
+export const TEMP_DIR = path.join(__dirname, '../../temp');
+
+/** Per-run record of step statuses written by runDailySync.ts (kept by cleanUp.ts). */
+export const RUN_MANIFEST_FILE = 'runManifest.json';
+
+/** Counts a step reports for the run history (e.g. `{ total, kept }`). */
+export type StepCounts = Record<string, number>;
+
+/** Run-wide options, parsed once from the command line. */
+export type PipelineOptions = {
+  /** Load every price date (or `since`..`until`) from the full AllPrices.json. */
+  backfill: boolean;
+  since?: string;
+  until?: string;
+};
+
+export type PipelineStep = {
+  /** Step id used by --from/--only/--skip (same as the script file name). */
+  name: string;
+  description: string;
+  /** /temp files that must exist before the step runs. */
+  inputs: string[];
+  /** /temp files the step must have written when it finishes. */
+  outputs: string[];
+  /** 'required': needs MongoDB; 'optional': uses it when MONGO_URI is configured. */
+  db?: 'required' | 'optional';
+  /** Left out of daily runs unless named in --with or --only (e.g. compactPrices). */
+  optional?: boolean;
+  /** Runs the step; may resolve with counts to record in the run history. */
+  run: (options: PipelineOptions) => Promise<StepCounts | void>;
+};
+
+export type StepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+/** A pipeline run as recorded in temp/runManifest.json and the SyncRun collection. */
+export type RunManifest = {
+  runId: string;
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  /** runId of the failed run this one resumed, if any. */
+  resumedFrom?: string;
+  options: PipelineOptions;
+  steps: {
+    name: string;
+    status: StepStatus;
+    startedAt?: string;
+    finishedAt?: string;
+    durationMs?: number;
+    counts?: StepCounts;
+    error?: string;
+  }[];
+  error?: string;
+};
+
+/** Absolute path of a file in /temp. */
+export function tempPath(file: string): string {
+  return path.join(TEMP_DIR, file);
+}
+
+/** Declared files (from `files`) that don't exist in /temp. */
+export function missingFiles(files: string[]): string[] {
+  return files.filter((file) => !fs.existsSync(tempPath(file)));
+}
+
+/** True when a MongoDB connection is open (for steps that use the database optionally). */
+export function isDbConnected(): boolean {
+  return mongoose.connection.readyState === 1;
+}
+
+/** Opens the shared MongoDB connection (same database as the API server). */
+export async function connectDb() {
+  if (isDbConnected()) return;
+  await mongoose.connect(process.env.MONGO_URI!, { dbName: 'goblin-bookie' });
+}
+
+/**
+ * Parses the run-wide options: `--backfill`, `--since=YYYY-MM-DD`, `--until=YYYY-MM-DD`
+ * (either date implies a backfill). Throws on malformed dates.
+ */
+export function parsePipelineOptions(argv: string[]): PipelineOptions {
+  const value = (name: string) => {
+    const arg = argv.find((a) => a.startsWith(`--${name}=`));
+    const date = arg ? arg.slice(name.length + 3) : undefined;
+    if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`--${name} must be a YYYY-MM-DD date, got ${date}`);
+    }
+    return date;
+  };
+  const since = value('since');
+  const until = value('until');
+  return { backfill: argv.includes('--backfill') || !!since || !!until, since, until };
+}
+
+/**
+ * Runs a single step as a standalone script: parses options, connects to MongoDB if the step
+ * uses it, and exits non-zero on failure.
+ */
+export function runStandalone(step: PipelineStep) {
+  const tag = `[${step.name}.ts]`;
+  (async () => {
+    ensureDirExists(TEMP_DIR);
+    const options = parsePipelineOptions(process.argv.slice(2));
+    const missing = missingFiles(step.inputs);
+    if (missing.length) throw new Error(`Missing input files in temp/: ${missing.join(', ')}`);
+
+    if (step.db === 'required' || (step.db === 'optional' && process.env.MONGO_URI)) {
+      await connectDb();
+    }
+    await step.run(options);
+  })()
+    .then(async () => {
+      await mongoose.disconnect();
+      logInfo(tag, `${step.description}: done`);
+    })
+    .catch(async (err) => {
+      logError(tag, `${step.description} failed: ${err?.stack || err}`);
+      await mongoose.disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,138 @@
+/**
+ * Goblin Bookie – Portfolio Valuation
+ *
+ * PURPOSE:
+ *   Computes current value and profit/loss for a portfolio's holdings. Shared by the
+ *   /api/portfolios routes and the daily snapshot script so both report identical numbers.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Unit price = average of each vendor's latest retail price for the holding's finish, each
+ *     converted into the valuation currency first, i.e. the same value GET /api/cards/:uuid reports
+ *     as `prices.retail.<finish>.avg`.
+ *   - Acquisition prices are in the portfolio's currency and are converted at the rate on the
+ *     holding's acquiredAt date (latest rate when unknown).
+ *   - Loads only the cards referenced by the portfolio, and only their last LATEST_LOOKBACK_DAYS
+ *     of price points (a card with no price in that window counts as unpriced).
+ *   - Holdings without a current price are reported with null value and counted as unpriced.
+ *   - A holding with prices but no FX rate to the valuation currency (e.g. before any rates are
+ *     loaded) is valued at its vendors' own prices instead, flagged `unconverted` with the row's
+ *     `currency`, and left out of every total (counted in `unconvertedCount`).
+ */
+
+import Card from '../models/Card';
+import { getAverageLatestPrice, getLatestPoint, getVendorCurrency, round2 } from './priceHelpers';
+import { daysAgo, LATEST_LOOKBACK_DAYS, loadPriceTrees } from './priceHistory';
+import { BASE_CURRENCY, getFxConverter, vendorPriceConverter } from './currency';
+import { VENDOR_IDS } from './vendors';
+
+/**
+ * Unconverted unit price for a holding: the average latest retail price for `finish` of the
+ * vendors sharing the first priced vendor's currency, or null when no vendor has a price.
+ */
+function nativeUnitPrice(prices: any, finish: string) {
+  const vendor = VENDOR_IDS.find((v) => getLatestPoint(prices?.[v], 'retail', finish));
+  if (!vendor) return null;
+  const currency = getVendorCurrency(prices, vendor);
+  const price = getAverageLatestPrice(prices, 'retail', finish, (p, v) =>
+    getVendorCurrency(prices, v) === currency ? p : null
+  );
+  return price !== null ? { price, currency } : null;
+}
+
+/**
+ * Values every holding of a portfolio in `currency` (default: the portfolio's own currency) and
+ * returns per-holding rows plus totals.
+ */
+export async function valuePortfolio(portfolio: any, currency?: string) {
+  const fromCurrency = portfolio.currency || BASE_CURRENCY;
+  const toCurrency = currency || fromCurrency;
+  const fx = await getFxConverter();
+  const holdings: any[] = portfolio.holdings || [];
+  const uuids = Array.from(new Set(holdings.map((h) => h.uuid)));
+  const cards = await Card.find({ uuid: { $in: uuids } })
+    .select('uuid name setCode imageUrl')
+    .lean();
+  const cardsByUuid = new Map(cards.map((c) => [c.uuid, c]));
+  const priceTrees = await loadPriceTrees(uuids, { since: daysAgo(LATEST_LOOKBACK_DAYS) });
+
+  let totalValue = 0;
+  let totalCost = 0;
+  let pricedCost = 0;
+  let pricedValue = 0;
+  let unpricedCount = 0;
+  let unconvertedCount = 0;
+
+  const rows = holdings.map((holding) => {
+    const card = cardsByUuid.get(holding.uuid);
+    const prices = priceTrees.get(holding.uuid);
+    let rowCurrency = toCurrency;
+    let unitPrice = card
+      ? getAverageLatestPrice(
+          prices,
+          'retail',
+          holding.finish,
+          vendorPriceConverter(fx, prices, toCurrency)
+        )
+      : null;
+    const native = card && unitPrice === null ? nativeUnitPrice(prices, holding.finish) : null;
+    if (native) ({ price: unitPrice, currency: rowCurrency } = native);
+    const unconverted = rowCurrency !== toCurrency;
+
+    const value = unitPrice !== null ? unitPrice * holding.quantity : null;
+    const acquisitionPrice =
+      typeof holding.acquisitionPrice === 'number'
+        ? fx(
+            holding.acquisitionPrice,
+            fromCurrency,
+            rowCurrency,
+            holding.acquiredAt ? new Date(holding.acquiredAt).toISOString().slice(0, 10) : undefined
+          )
+        : null;
+    const cost = acquisitionPrice !== null ? acquisitionPrice * holding.quantity : null;
+    const profitLoss = value !== null && cost !== null ? value - cost : null;
+
+    if (unconverted) unconvertedCount++;
+    else if (value !== null) totalValue += value;
+    else unpricedCount++;
+    if (cost !== null && !unconverted) totalCost += cost;
+    if (profitLoss !== null && !unconverted) {
+      pricedValue += value!;
+      pricedCost += cost!;
+    }
+
+    return {
+      _id: holding._id,
+      uuid: holding.uuid,
+      name: card?.name ?? null,
+      set: card?.setCode ?? null,
+      imageUrl: card?.imageUrl ?? null,
+      finish: holding.finish,
+      currency: rowCurrency,
+      unconverted,
+      quantity: holding.quantity,
+      acquisitionPrice: round2(acquisitionPrice),
+      acquiredAt: holding.acquiredAt ?? null,
+      notes: holding.notes ?? null,
+      unitPrice: round2(unitPrice),
+      value: round2(value),
+      cost: round2(cost),
+      profitLoss: round2(profitLoss),
+      profitLossPct: profitLoss !== null && cost ? round2((profitLoss / cost) * 100) : null,
+    };
+  });
+
+  const profitLoss = pricedValue - pricedCost;
+  return {
+    currency: toCurrency,
+    holdings: rows,
+    totals: {
+      totalValue: round2(totalValue),
+      totalCost: round2(totalCost),
+      profitLoss: round2(profitLoss),
+      profitLossPct: pricedCost ? round2((profitLoss / pricedCost) * 100) : null,
+      holdingsCount: holdings.length,
+      unpricedCount,
+      unconvertedCount,
+    },
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Goblin Bookie – Shared Price Helpers
+ *
+ * PURPOSE:
+ *   Small, dependency-free helpers for reading a card's nested
+ *   `<vendor>.<type>.<finish>.<date>` price tree (built from PricePoint documents by
+ *   src/utils/priceHistory.ts).
+ *
+ * CONTEXT:
+ *   - Used by the API routes and by pipeline scripts that evaluate prices after upload (e.g. alerts).
+ *   - Price values may come back from MongoDB as plain numbers or as extended-JSON wrappers
+ *     (`{ $numberInt }` / `{ $numberDouble }`), so every read goes through toPriceNumber.
+ *   - Dates are ISO 8601 strings (YYYY-MM-DD), so lexical sorting is chronological sorting.
+ *   - Vendors price in different currencies (cardmarket in EUR). Anything that combines vendors
+ *     accepts a PriceConverter (see src/utils/currency.ts) so prices are converted before averaging.
+ *   - Which vendors exist (and their usual currency) comes from the registry in src/utils/vendors.ts.
+ */
+
+import { getVendor, PriceKind, VENDOR_IDS } from './vendors';
+
+export type { PriceKind } from './vendors';
+
+export type SeriesPoint = { date: string; price: number };
+
+/** Converts one vendor's native price on a date into a common currency (null = no rate). */
+export type PriceConverter = (price: number, vendor: string, date: string) => number | null;
+
+/**
+ * Currency of a vendor's prices in a price tree: the stored MTGJSON `currency`, else the vendor's
+ * usual currency.
+ */
+export function getVendorCurrency(prices: any, vendor: string): string {
+  return prices?.[vendor]?.currency || getVendor(vendor)?.currency || 'USD';
+}
+
+/** Helper: round a nullable number to two decimals, or return null. */
+export function round2(num: number | null): number | null {
+  return typeof num === 'number' ? Number(num.toFixed(2)) : null;
+}
+
+/**
+ * Converts a stored price value (number or extended-JSON wrapper) into a plain number, or null.
+ */
+export function toPriceNumber(value: any): number | null {
+  if (value && typeof value === 'object' && '$numberInt' in value) return Number(value.$numberInt);
+  if (value && typeof value === 'object' && '$numberDouble' in value)
+    return Number(value.$numberDouble);
+  return typeof value === 'number' ? value : null;
+}
+
+/**
+ * Returns the latest point (newest date key) for one vendor's type/finish, or null.
+ * `priceObj` is a single vendor's price list, e.g. `prices.tcgplayer`.
+ */
+export function getLatestPoint(priceObj: any, type: PriceKind, finish: string): SeriesPoint | null {
+  if (!priceObj || !priceObj[type] || !priceObj[type][finish]) return null;
+  const dates = Object.keys(priceObj[type][finish]);
+  if (!dates.length) return null;
+  dates.sort(); // Dates as strings, lexically sorted (ISO 8601 format)
+  const latest = dates[dates.length - 1];
+  const price = toPriceNumber(priceObj[type][finish][latest]);
+  return price === null ? null : { date: latest, price };
+}
+
+/**
+ * Returns the latest price (in the vendor's own currency) for one vendor's type/finish, or null.
+ */
+export function getLatestPrice(priceObj: any, type: PriceKind, finish: string): number | null {
+  return getLatestPoint(priceObj, type, finish)?.price ?? null;
+}
+
+/**
+ * Averages the latest price of every vendor that has one for this type/finish, or null if none.
+ * Pass `convert` whenever vendors may use different currencies.
+ */
+export function getAverageLatestPrice(
+  prices: any,
+  type: PriceKind,
+  finish: string,
+  convert?: PriceConverter
+): number | null {
+  const vals: number[] = [];
+  for (const vendor of VENDOR_IDS) {
+    const point = getLatestPoint(prices?.[vendor], type, finish);
+    if (!point) continue;
+    const price = convert ? convert(point.price, vendor, point.date) : point.price;
+    if (price !== null) vals.push(price);
+  }
+  return vals.length ? vals.reduce((a, b) => a + b, 0) / vals.length : null;
+}
+
+/**
+ * Shifts an ISO date string (YYYY-MM-DD) by a number of days (negative = backwards).
+ */
+export function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds a chronologically sorted price series for one type/finish.
+ * With a vendor, returns that vendor's raw points; without one, averages all vendors per date
+ * (the same cross-vendor average the card detail history uses). With `convert`, every point is
+ * converted first (points without a rate are dropped).
+ */
+export function getPriceSeries(
+  prices: any,
+  type: PriceKind,
+  finish: string,
+  vendor?: string | null,
+  convert?: PriceConverter
+): SeriesPoint[] {
+  const vendors = vendor ? [vendor] : VENDOR_IDS;
+  const byDate = new Map<string, number[]>();
+
+  for (const v of vendors) {
+    const points = prices?.[v]?.[type]?.[finish];
+    if (!points) continue;
+    for (const date of Object.keys(points)) {
+      const raw = toPriceNumber(points[date]);
+      const price = raw !== null && convert ? convert(raw, v, date) : raw;
+      if (price === null) continue;
+      if (!byDate.has(date)) byDate.set(date, []);
+      byDate.get(date)!.push(price);
+    }
+  }
+
+  return Array.from(byDate.keys())
+    .sort()
+    .map((date) => {
+      const vals = byDate.get(date)!;
+      return { date, price: vals.reduce((a, b) => a + b, 0) / vals.length };
+    });
+}
+
+/**
+ * Returns the last point in a sorted series dated on or before the given date, or null.
+ */
+export function getPointOnOrBefore(series: SeriesPoint[], date: string): SeriesPoint | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i].date <= date) return series[i];
+  }
+  return null;
+}
+
+/**
+ * Percentage change between two prices, or null when the baseline is missing or zero.
+ */
+export function percentChange(latest: number | null, baseline: number | null): number | null {
+  if (typeof latest !== 'number' || typeof baseline !== 'number' || baseline === 0) return null;
+  return ((latest - baseline) / baseline) * 100;
+}
@@ -0,0 +1,201 @@
+/**
+ * Goblin Bookie – Price History Access
+ *
+ * PURPOSE:
+ *   Reads and writes card price history in the PricePoint collection, converting between
+ *   flat per-point documents and the nested `{ vendor: { type: { finish: { date: price } } } }`
+ *   "price tree" shape that the price helpers (src/utils/priceHelpers.ts) work on.
+ *
+ * CONTEXT:
+ *   - Used by the API routes, the upload step, the one-time migration, and post-upload scripts.
+ *   - Every read can be bounded with `since` (YYYY-MM-DD) so callers that only need recent prices
+ *     don't load a card's full history.
+ */
+
+import PricePoint from '../models/PricePoint';
+import { getVendorCurrency, shiftDate } from './priceHelpers';
+import { PRICE_TYPES } from './vendors';
+
+type FinishPrices = { [finish: string]: { [date: string]: number } };
+
+export type PriceTree = {
+  [vendor: string]: { currency?: string; retail?: FinishPrices; buylist?: FinishPrices };
+};
+
+/** Days of history loaded when a caller only needs "latest" prices (older prices count as stale). */
+export const LATEST_LOOKBACK_DAYS = 30;
+
+/** Returns today's date minus `days`, as YYYY-MM-DD. */
+export function daysAgo(days: number): string {
+  return shiftDate(new Date().toISOString().slice(0, 10), -days);
+}
+
+/**
+ * Adds one flat price point into a nested price tree (mutates `tree`).
+ */
+export function addToPriceTree(tree: PriceTree, point: any) {
+  const { vendor, priceType, finish, date, price, currency } = point;
+  const list: any = tree[vendor] || (tree[vendor] = {});
+  if (currency) list.currency = currency;
+  if (!list[priceType]) list[priceType] = {};
+  if (!list[priceType][finish]) list[priceType][finish] = {};
+  list[priceType][finish][date] = price;
+}
+
+/**
+ * Flattens a nested price tree (as produced by parsePrices.ts) into PricePoint-shaped objects,
+ * tagging each point with its vendor's currency (falling back to the vendor's usual currency).
+ * Skips non-numeric values and anything that isn't a vendor/type/finish/date leaf.
+ */
+export function flattenPriceTree(uuid: string, prices: any) {
+  const points: any[] = [];
+  for (const vendor in prices || {}) {
+    const currency = getVendorCurrency(prices, vendor);
+    for (const priceType of PRICE_TYPES) {
+      const finishes = prices[vendor]?.[priceType];
+      if (!finishes || typeof finishes !== 'object') continue;
+      for (const finish in finishes) {
+        const dates = finishes[finish];
+        if (!dates || typeof dates !== 'object') continue;
+        for (const date in dates) {
+          const price = dates[date];
+          if (typeof price !== 'number' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) continue;
+          points.push({ uuid, vendor, priceType, finish, date, price, currency });
+        }
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Builds an `updateOne` upsert for one price point, keyed on the unique PricePoint index.
+ */
+export function pricePointUpsert(point: any) {
+  const { uuid, vendor, priceType, finish, date, price, currency } = point;
+  return {
+    updateOne: {
+      filter: { uuid, vendor, priceType, finish, date },
+      update: { $set: { price, currency } },
+      upsert: true,
+    },
+  };
+}
+
+/**
+ * Loads price trees for a set of cards, optionally only dates >= `since`.
+ * Returns a Map of uuid -> price tree (cards without points are absent).
+ */
+export async function loadPriceTrees(
+  uuids: string[],
+  options: { since?: string } = {}
+): Promise<Map<string, PriceTree>> {
+  const filter: any = { uuid: { $in: uuids } };
+  if (options.since) filter.date = { $gte: options.since };
+
+  const trees = new Map<string, PriceTree>();
+  const cursor = PricePoint.find(filter)
+    .select('-_id uuid vendor priceType finish date price currency')
+    .lean()
+    .cursor();
+  for await (const point of cursor) {
+    if (!trees.has(point.uuid)) trees.set(point.uuid, {});
+    addToPriceTree(trees.get(point.uuid)!, point);
+  }
+  return trees;
+}
+
+/**
+ * Loads the full price tree for one card (empty object if it has no history).
+ */
+export async function loadPriceTree(uuid: string, options: { since?: string } = {}) {
+  const trees = await loadPriceTrees([uuid], options);
+  return trees.get(uuid) || {};
+}
+
+/**
+ * Loads, per series (card/vendor/type/finish) with points since `since`, only the latest point
+ * and the latest point on or before each of `offsets` days before it, i.e. the points a latest
+ * price and its N-day changes need, instead of every point in the range.
+ * Returns a Map of uuid -> price tree, like loadPriceTrees.
+ */
+export async function loadSeriesAnchors(
+  uuids: string[],
+  options: { since: string; offsets: number[] }
+): Promise<Map<string, PriceTree>> {
+  const dayMs = 24 * 60 * 60 * 1000;
+  // Latest point on or before `days` before the series' latest date (points are newest first)
+  const onOrBefore = (days: number) => ({
+    $arrayElemAt: [
+      {
+        $filter: {
+          input: '$points',
+          cond: {
+            $lte: [
+              '$$this.date',
+              {
+                $dateToString: {
+                  format: '%Y-%m-%d',
+                  date: {
+                    $subtract: [{ $dateFromString: { dateString: '$latest.date' } }, days * dayMs],
+                  },
+                },
+              },
+            ],
+          },
+        },
+      },
+      0,
+    ],
+  });
+
+  const series = await PricePoint.aggregate([
+    { $match: { uuid: { $in: uuids }, date: { $gte: options.since } } },
+    // Walks the unique key index backwards, so each series' points arrive newest first
+    { $sort: { uuid: -1, vendor: -1, priceType: -1, finish: -1, date: -1 } },
+    {
+      $group: {
+        _id: { uuid: '$uuid', vendor: '$vendor', priceType: '$priceType', finish: '$finish' },
+        currency: { $first: '$currency' },
+        points: { $push: { date: '$date', price: '$price' } },
+      },
+    },
+    { $addFields: { latest: { $arrayElemAt: ['$points', 0] } } },
+    { $project: { _id: 1, currency: 1, anchors: ['$latest', ...options.offsets.map(onOrBefore)] } },
+  ]);
+
+  const trees = new Map<string, PriceTree>();
+  for (const { _id, currency, anchors } of series) {
+    if (!trees.has(_id.uuid)) trees.set(_id.uuid, {});
+    for (const anchor of anchors) {
+      if (anchor) addToPriceTree(trees.get(_id.uuid)!, { ..._id, ...anchor, currency });
+    }
+  }
+  return trees;
+}
+
+/**
+ * Streams price trees for every card with points since `since`, one card at a time, in uuid order.
+ * Memory use is bounded by a single card's recent history.
+ */
+export async function* streamPriceTrees(
+  since: string
+): AsyncGenerator<{ uuid: string; prices: PriceTree }> {
+  const cursor = PricePoint.find({ date: { $gte: since } })
+    .sort({ uuid: 1 })
+    .select('-_id uuid vendor priceType finish date price currency')
+    .lean()
+    .cursor();
+
+  let currentUuid: string | null = null;
+  let current: PriceTree = {};
+  for await (const point of cursor) {
+    if (point.uuid !== currentUuid) {
+      if (currentUuid) yield { uuid: currentUuid, prices: current };
+      currentUuid = point.uuid;
+      current = {};
+    }
+    addToPriceTree(current, point);
+  }
+  if (currentUuid) yield { uuid: currentUuid, prices: current };
+}
@@ -0,0 +1,167 @@
+/**
+ * Goblin Bookie – Card Price Summary
+ *
+ * PURPOSE:
+ *   Computes the precomputed `summary` subdocument stored on each Card: latest price (and its
+ *   date) per vendor/type/finish, cross-vendor low/avg/high, and 7-day / 30-day % change.
+ *
+ * CONTEXT:
+ *   - Written by scripts/uploadToMongo.ts right after each batch of price points is stored (and by
+ *     the admin quarantine route when an approved point is added to history), via
+ *     refreshSummaries.
+ *   - Lets list-style routes read one small indexed subdocument instead of loading and sorting
+ *     raw price history for every returned card, and lets MongoDB sort/filter by price.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Works on a price tree (see src/utils/priceHistory.ts) covering SUMMARY_LOOKBACK_DAYS. In
+ *     refreshSummaries the tree holds only the points the summary uses (each series' latest point
+ *     and its baselines on or before 7 and 30 days earlier), which gives the same result.
+ *   - % change is computed per vendor (latest vs. the latest point on or before N days earlier)
+ *     and then averaged across vendors, matching how the search route has always reported it.
+ *   - Every price is converted into BASE_CURRENCY with the FX rate for its own date before
+ *     low/avg/high are taken, so EUR and USD vendors are never averaged together raw. A price with
+ *     no available rate (e.g. cardmarket before any FX rates are loaded) is kept in `unconverted`
+ *     in its own currency instead, and left out of `vendors` and low/avg/high. % change is computed
+ *     in the vendor's own currency, so it reflects the card's price move rather than exchange-rate
+ *     moves.
+ */
+
+import {
+  PriceKind,
+  getLatestPoint,
+  getPointOnOrBefore,
+  getPriceSeries,
+  getVendorCurrency,
+  percentChange,
+  round2,
+  shiftDate,
+} from './priceHelpers';
+import { BASE_CURRENCY, FxConverter, getFxConverter, vendorPriceConverter } from './currency';
+import { daysAgo, loadSeriesAnchors } from './priceHistory';
+import { FINISHES, PRICE_TYPES, VENDOR_IDS } from './vendors';
+import Card from '../models/Card';
+
+/** History needed to compute every summary field (30-day change plus slack for gaps). */
+export const SUMMARY_LOOKBACK_DAYS = 45;
+
+/** Days behind the latest point for change7d / change30d. */
+export const SUMMARY_CHANGE_DAYS = [7, 30];
+
+type FinishSummary = {
+  avg: number | null;
+  low: number | null;
+  high: number | null;
+  change7d: number | null;
+  change30d: number | null;
+};
+
+/** Average of the non-null values, or null. */
+function average(vals: (number | null)[]): number | null {
+  const nums = vals.filter((v): v is number => typeof v === 'number');
+  return nums.length ? nums.reduce((a, b) => a + b, 0) / nums.length : null;
+}
+
+/** Average per-vendor % change over `days` for one type/finish. */
+function vendorAverageChange(prices: any, type: PriceKind, finish: string, days: number) {
+  return average(
+    VENDOR_IDS.map((vendor) => {
+      const series = getPriceSeries(prices, type, finish, vendor);
+      if (!series.length) return null;
+      const latest = series[series.length - 1];
+      const baseline = getPointOnOrBefore(series, shiftDate(latest.date, -days));
+      return percentChange(latest.price, baseline ? baseline.price : null);
+    })
+  );
+}
+
+/** Sets `tree[vendor][type][finish] = value`, creating the levels as needed. */
+function setVendorValue(
+  tree: Record<string, any>,
+  vendor: string,
+  type: string,
+  finish: string,
+  value: any
+) {
+  if (!tree[vendor]) tree[vendor] = {};
+  if (!tree[vendor][type]) tree[vendor][type] = {};
+  tree[vendor][type][finish] = value;
+}
+
+/**
+ * Builds the Card `summary` subdocument (in BASE_CURRENCY) from a card's (recent) price tree.
+ * Returns null when the tree contains no prices at all.
+ */
+export function computePriceSummary(prices: any, fx: FxConverter) {
+  const convert = vendorPriceConverter(fx, prices, BASE_CURRENCY);
+  const vendors: Record<string, any> = {};
+  const vendorDates: Record<string, any> = {};
+  const unconverted: Record<string, any> = {};
+  const summary: Record<string, any> = {};
+  let latestDate: string | null = null;
+
+  for (const type of PRICE_TYPES) {
+    summary[type] = {};
+    for (const finish of FINISHES) {
+      const latestByVendor: number[] = [];
+      for (const vendor of VENDOR_IDS) {
+        const point = getLatestPoint(prices?.[vendor], type, finish);
+        if (!point) continue;
+        if (!latestDate || point.date > latestDate) latestDate = point.date;
+
+        const price = convert(point.price, vendor, point.date);
+        if (price === null) {
+          // No FX rate: keep the native price, but out of every converted figure
+          setVendorValue(unconverted, vendor, type, finish, round2(point.price));
+          unconverted[vendor].currency = getVendorCurrency(prices, vendor);
+          continue;
+        }
+
+        latestByVendor.push(price);
+        setVendorValue(vendors, vendor, type, finish, round2(price));
+        setVendorValue(vendorDates, vendor, type, finish, point.date);
+      }
+      if (!latestByVendor.length) continue;
+
+      const finishSummary: FinishSummary = {
+        avg: round2(average(latestByVendor)),
+        low: round2(Math.min(...latestByVendor)),
+        high: round2(Math.max(...latestByVendor)),
+        change7d: round2(vendorAverageChange(prices, type, finish, 7)),
+        change30d: round2(vendorAverageChange(prices, type, finish, 30)),
+      };
+      summary[type][finish] = finishSummary;
+    }
+  }
+
+  if (!latestDate) return null;
+  return {
+    date: latestDate,
+    currency: BASE_CURRENCY,
+    vendors,
+    vendorDates,
+    unconverted,
+    ...summary,
+  };
+}
+
+/**
+ * Recomputes the precomputed price summary for a batch of cards. Only each series' latest point
+ * and its 7- and 30-day baselines are read (scripts/benchmarkSummaryRefresh.ts compares this
+ * with reading the whole SUMMARY_LOOKBACK_DAYS window).
+ */
+export async function refreshSummaries(uuids: string[]) {
+  if (!uuids.length) return;
+  const priceTrees = await loadSeriesAnchors(uuids, {
+    since: daysAgo(SUMMARY_LOOKBACK_DAYS),
+    offsets: SUMMARY_CHANGE_DAYS,
+  });
+  const fx = await getFxConverter();
+
+  const ops = uuids.map((uuid) => ({
+    updateOne: {
+      filter: { uuid },
+      update: { $set: { summary: computePriceSummary(priceTrees.get(uuid), fx) } },
+    },
+  }));
+  await Card.bulkWrite(ops, { ordered: false });
+}
@@ -0,0 +1,63 @@
+/**
+ * Goblin Bookie – Collection Rebuild (Staging Swap)
+ *
+ * PURPOSE:
+ *   Fully rebuilds a derived collection (market movers, arbitrage) without readers ever seeing
+ *   a half-built one: rows go into a staging collection that is renamed over the live one only
+ *   after every insert succeeded.
+ *
+ * CONTEXT:
+ *   - Used by scripts/computeMovers.ts and scripts/computeArbitrage.ts.
+ *   - Until the rename, the API keeps serving the previous run's complete rows. A failed run
+ *     drops its staging collection and leaves the live one untouched.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Rows are cast through the Mongoose model (defaults, types, _id) and written with the
+ *     driver, since the model itself always points at the live collection.
+ *   - The model's schema indexes are created on the staging collection before the swap (which
+ *     also creates it when the run wrote no rows), so the renamed collection is indexed from its
+ *     first read.
+ *   - `renameCollection` with dropTarget replaces the live collection in one server-side step.
+ */
+
+import mongoose from 'mongoose';
+
+export type RowWriter = (rows: Record<string, any>[]) => Promise<void>;
+
+/**
+ * Rebuilds `model`'s collection from the rows `build` writes, then swaps it in.
+ * Returns the number of rows written.
+ */
+export async function rebuildCollection(
+  model: mongoose.Model<any>,
+  build: (write: RowWriter) => Promise<void>
+): Promise<number> {
+  const db = model.db.db;
+  if (!db) throw new Error('Not connected to MongoDB');
+
+  const liveName = model.collection.collectionName;
+  const staging = db.collection(`${liveName}_staging`);
+  // Leftovers from a crashed run
+  await staging.drop().catch(() => undefined);
+
+  let written = 0;
+  try {
+    await build(async (rows) => {
+      if (!rows.length) return;
+      await staging.insertMany(
+        rows.map((row) => new model(row).toObject()),
+        { ordered: false }
+      );
+      written += rows.length;
+    });
+
+    for (const [fields, options] of model.schema.indexes()) {
+      await staging.createIndex(fields as any, options as any);
+    }
+    await staging.rename(liveName, { dropTarget: true });
+  } catch (err) {
+    await staging.drop().catch(() => undefined);
+    throw err;
+  }
+  return written;
+}
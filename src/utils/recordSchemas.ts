@@ -0,0 +1,184 @@
+/**
+ * Goblin Bookie – Pipeline Record Schemas
+ *
+ * PURPOSE:
+ *   Typed shapes and validators for the NDJSON records passed between pipeline steps:
+ *     - ParsedCardRecord:  one line of parsedCards.ndjson (written by parseCards.ts)
+ *     - ParsedPriceRecord: one line of parsedPrices.ndjson (written by parsePrices.ts)
+ *     - MergedCardRecord:  one line of mergedCards.ndjson (card fields plus `prices`)
+ *
+ * CONTEXT:
+ *   - The parse steps validate every record before writing it, and validatePrices.ts validates
+ *     merged records again before anything reaches MongoDB.
+ *   - Validators return a list of problems (empty = valid) instead of throwing, so callers can
+ *     count and log bad records and keep streaming.
+ *   - Vendors, price types and finishes are the ones in the registry (src/utils/vendors.ts).
+ *   - Only shape and hard limits live here; "suspicious compared with recent history" is decided
+ *     by validatePrices.ts.
+ */
+
+import { FINISHES, getVendor } from './vendors';
+
+/** Highest price accepted as data at all (anything above is a feed error, not a card). */
+export const MAX_PLAUSIBLE_PRICE = 1000000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** date (YYYY-MM-DD) -> price */
+export type PriceDates = Record<string, number>;
+
+/** One vendor's prices: `currency` plus retail/buylist -> finish -> date -> price. */
+export type VendorPriceTree = {
+  currency?: string;
+  retail?: Record<string, PriceDates>;
+  buylist?: Record<string, PriceDates>;
+};
+
+export type PriceTreeRecord = Record<string, VendorPriceTree>;
+
+export type ParsedCardRecord = {
+  uuid: string;
+  name: string;
+  normalizedName: string;
+  setCode: string;
+  language?: string;
+  printedName?: string;
+  scryfallId?: string;
+  purchaseUrls?: Record<string, string>;
+  rarity?: string;
+  colors?: string[];
+  colorIdentity?: string[];
+  typeLine?: string;
+  manaValue?: number;
+  oracleText?: string;
+  collectorNumber?: string;
+  artist?: string;
+  legalities?: Record<string, string>;
+};
+
+export type ParsedPriceRecord = { uuid: string; prices: PriceTreeRecord };
+
+/** Merged line: card fields (absent for price-only orphans) plus prices (absent for card-only). */
+export type MergedCardRecord = Partial<ParsedCardRecord> & {
+  uuid: string;
+  prices?: PriceTreeRecord;
+};
+
+/** True for a finite, positive price no higher than MAX_PLAUSIBLE_PRICE. */
+export function isPlausiblePrice(price: unknown): price is number {
+  return (
+    typeof price === 'number' && Number.isFinite(price) && price > 0 && price <= MAX_PLAUSIBLE_PRICE
+  );
+}
+
+const isString = (value: unknown) => typeof value === 'string' && value.length > 0;
+const isOptional = (value: unknown, check: (v: unknown) => boolean) =>
+  value === undefined || value === null || check(value);
+const isStringArray = (value: unknown) =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Problems with a card record (empty when valid). `partial` accepts records without card
+ * fields other than uuid (price-only lines of an outer merge).
+ */
+export function validateCardRecord(record: any, partial = false): string[] {
+  const problems: string[] = [];
+  if (!isPlainObject(record)) return ['record is not an object'];
+  if (!isString(record.uuid)) problems.push('uuid must be a non-empty string');
+
+  const required = ['name', 'normalizedName', 'setCode'];
+  const hasCardFields = required.some((field) => record[field] !== undefined);
+  if (partial && !hasCardFields) return problems;
+  for (const field of required) {
+    if (!isString(record[field])) problems.push(`${field} must be a non-empty string`);
+  }
+
+  const optionalStrings = [
+    'language',
+    'printedName',
+    'scryfallId',
+    'rarity',
+    'typeLine',
+    'oracleText',
+    'collectorNumber',
+    'artist',
+  ];
+  for (const field of optionalStrings) {
+    if (!isOptional(record[field], (v) => typeof v === 'string')) {
+      problems.push(`${field} must be a string`);
+    }
+  }
+  for (const field of ['colors', 'colorIdentity']) {
+    if (!isOptional(record[field], isStringArray)) problems.push(`${field} must be a string array`);
+  }
+  if (!isOptional(record.manaValue, (v) => typeof v === 'number' && Number.isFinite(v))) {
+    problems.push('manaValue must be a number');
+  }
+  for (const field of ['purchaseUrls', 'legalities']) {
+    if (!isOptional(record[field], isPlainObject)) problems.push(`${field} must be an object`);
+  }
+  return problems;
+}
+
+/**
+ * Problems with a price tree (empty when valid): registered vendors, with only the price types
+ * each publishes, known finishes, YYYY-MM-DD dates and plausible prices.
+ */
+export function validatePriceTree(prices: any): string[] {
+  if (!isPlainObject(prices)) return ['prices must be an object'];
+  const problems: string[] = [];
+
+  for (const [vendor, tree] of Object.entries(prices)) {
+    const definition = getVendor(vendor);
+    if (!definition) {
+      problems.push(`unknown vendor ${vendor}`);
+      continue;
+    }
+    if (!isPlainObject(tree)) {
+      problems.push(`${vendor} must be an object`);
+      continue;
+    }
+    for (const [key, finishes] of Object.entries(tree)) {
+      if (key === 'currency') {
+        if (!isOptional(finishes, (v) => typeof v === 'string' && /^[A-Z]{3}$/.test(v))) {
+          problems.push(`${vendor}.currency must be an ISO currency code`);
+        }
+        continue;
+      }
+      if (!definition.priceTypes.includes(key as any) || !isPlainObject(finishes)) {
+        problems.push(`${vendor}.${key} is not a price type`);
+        continue;
+      }
+      for (const [finish, dates] of Object.entries(finishes)) {
+        if (!FINISHES.includes(finish) || !isPlainObject(dates)) {
+          problems.push(`${vendor}.${key}.${finish} is not a finish`);
+          continue;
+        }
+        for (const [date, price] of Object.entries(dates)) {
+          if (!DATE_PATTERN.test(date))
+            problems.push(`${vendor}.${key}.${finish}: bad date ${date}`);
+          else if (!isPlausiblePrice(price)) {
+            problems.push(`${vendor}.${key}.${finish}.${date}: implausible price ${price}`);
+          }
+        }
+      }
+    }
+  }
+  return problems;
+}
+
+/** Problems with a parsedPrices.ndjson record (empty when valid). */
+export function validatePriceRecord(record: any): string[] {
+  if (!isPlainObject(record)) return ['record is not an object'];
+  const problems = isString(record.uuid) ? [] : ['uuid must be a non-empty string'];
+  return problems.concat(validatePriceTree(record.prices));
+}
+
+/** Problems with a mergedCards.ndjson record (empty when valid). */
+export function validateMergedRecord(record: any): string[] {
+  const problems = validateCardRecord(record, true);
+  if (record?.prices !== undefined) problems.push(...validatePriceTree(record.prices));
+  return problems;
+}
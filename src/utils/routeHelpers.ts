@@ -0,0 +1,55 @@
+/**
+ * Goblin Bookie – Shared Route Helpers
+ *
+ * PURPOSE:
+ *   Small helpers shared by the Express routers so request validation and error responses
+ *   look the same across every endpoint.
+ */
+
+import crypto from 'crypto';
+import express from 'express';
+import mongoose from 'mongoose';
+
+/**
+ * Sends a 400 for Mongoose validation/cast errors (bad client input), otherwise logs the error
+ * and sends a 500 with the given message.
+ */
+export function handleRouteError(res: express.Response, err: any, message: string) {
+  if (err instanceof mongoose.Error.ValidationError || err instanceof mongoose.Error.CastError) {
+    return res.status(400).json({ error: err.message });
+  }
+  console.error(err);
+  return res.status(500).json({ error: message });
+}
+
+/** The admin token a request carries: `Authorization: Bearer <token>` or `X-Admin-Token`. */
+function requestAdminToken(req: express.Request): string {
+  const auth = req.get('authorization') || '';
+  if (auth.toLowerCase().startsWith('bearer ')) return auth.slice(7).trim();
+  return req.get('x-admin-token') || '';
+}
+
+/** True when the request carries the configured ADMIN_TOKEN (never true if none is set). */
+export function isAdminRequest(req: express.Request): boolean {
+  const expected = process.env.ADMIN_TOKEN || '';
+  const given = requestAdminToken(req);
+  if (!expected || !given) return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Middleware: only lets requests carrying ADMIN_TOKEN through, otherwise sends a 401.
+ * With no ADMIN_TOKEN configured every request is refused, so admin routes are closed by default.
+ */
+export function requireAdmin(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token missing or invalid' });
+  }
+  next();
+}
@@ -0,0 +1,35 @@
+/**
+ * Goblin Bookie – Self-Check Runner
+ *
+ * PURPOSE:
+ *   Minimal runner for the scripts/check*.ts self-checks: named checks built on Node's `assert`,
+ *   a PASS/FAIL line per check, and a non-zero exit code when any check fails.
+ *
+ * CONTEXT:
+ *   - The checks cover pure pipeline logic (no MongoDB, no downloads), so they run anywhere with
+ *     `npm test` or one script at a time with ts-node.
+ *   - Output goes to the console only, not to logs/sync.log.
+ */
+
+export type Check = { name: string; run: () => void | Promise<void> };
+
+/**
+ * Runs every check in order, printing one line each, and sets a non-zero exit code if any
+ * failed. Resolves with the number of failures.
+ */
+export async function runChecks(title: string, checks: Check[]): Promise<number> {
+  let failed = 0;
+  for (const check of checks) {
+    try {
+      await check.run();
+      console.log(`PASS ${check.name}`);
+    } catch (err: any) {
+      failed++;
+      console.log(`FAIL ${check.name}\n  ${String(err?.message || err).replace(/\n/g, '\n  ')}`);
+    }
+  }
+
+  console.log(`${title}: ${checks.length - failed}/${checks.length} checks passed`);
+  if (failed) process.exitCode = 1;
+  return failed;
+}
@@ -1,58 +1,224 @@
 /**
- * Goblin Bookie – NDJSON Sorter
+ * Goblin Bookie – NDJSON Sorter (External Merge Sort)
  *
  * PURPOSE:
- *   Reads a newline-delimited JSON (NDJSON) file, parses each line as a JSON object,
- *   sorts all objects alphabetically by their `uuid` field, and writes the sorted objects
- *   back out to a new NDJSON file.
+ *   Sorts a newline-delimited JSON (NDJSON) file by a key (the `uuid` field by default) and writes
+ *   the sorted lines to a new NDJSON file, using bounded memory however large the input is.
  *
  * CONTEXT:
  *   - Both parsedCards.ndjson and parsedPrices.ndjson must be sorted by UUID before the merge step,
  *     so the merge can happen efficiently as a linear, streaming operation.
- *   - Sorting is done in memory (safe for pre-filtered files <1GB, as on Render's 2GB limit).
+ *   - Keys are compared with compareKeys (plain `<`), which mergeSortedNdjson.ts also uses to
+ *     walk both files in lockstep.
+ *
+ * IMPLEMENTATION DETAILS:
+ *   - Lines are read in chunks of roughly `memoryBudgetBytes` (SORT_MEMORY_MB, default 256 MB).
+ *     Only the raw line and its key are kept, not the parsed object.
+ *   - Each full chunk is sorted and spilled to a run file next to the output (in /temp); the runs
+ *     are then combined with a k-way streaming merge (a min-heap holding one line per run).
+ *   - An input that fits in a single chunk is written straight to the output without spilling.
+ *   - The sort is stable: equal keys keep their input order. Run files are always removed.
  *
  * ERROR HANDLING:
- *   - Lines that cannot be parsed as valid JSON are logged and skipped (no crash).
- *   - Summary logs total, skipped, and output path at the end.
+ *   - Lines that cannot be parsed as valid JSON, or have no string key, are logged and skipped
+ *     (no crash).
+ *   - Summary logs total, skipped, run count and output path at the end.
  */
 
 import fs from 'fs';
+import path from 'path';
 import readline from 'readline';
 import { logInfo, logError, waitForStreamFinish } from './jsonHelpers';
 
-async function sortNdjson(inputPath: string, outputPath: string): Promise<void> {
-  logInfo('[sortNdjson.ts]', `Starting sort for ${inputPath}`);
-  const lines: any[] = [];
-  let total = 0;
-  let failed = 0;
+const DEFAULT_MEMORY_MB = 256;
+// Rough per-line cost beyond the strings themselves (array slot, entry object, string headers)
+const LINE_OVERHEAD_BYTES = 96;
 
-  const rl = readline.createInterface({
-    input: fs.createReadStream(inputPath),
-    crlfDelay: Infinity,
-  });
+export type SortNdjsonOptions = {
+  /** Field holding the sort key, or a function returning it (default 'uuid'). */
+  key?: string | ((item: any) => unknown);
+  /** Approximate memory for buffered lines per run (default SORT_MEMORY_MB, else 256 MB). */
+  memoryBudgetBytes?: number;
+  /** Directory for the spilled run files (default: the output file's directory). */
+  tmpDir?: string;
+};
 
-  for await (const line of rl) {
-    try {
-      lines.push(JSON.parse(line));
-      total++;
-    } catch (err) {
-      failed++;
-      logError('[sortNdjson.ts]', `Skipping invalid JSON line: ${err}`);
-    }
+type Entry = { key: string; line: string };
+
+/** Memory budget from SORT_MEMORY_MB, falling back to DEFAULT_MEMORY_MB. */
+function defaultMemoryBudget(): number {
+  const mb = parseFloat(process.env.SORT_MEMORY_MB || '');
+  return (Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_MEMORY_MB) * 1024 * 1024;
+}
+
+/**
+ * Orders sort keys by UTF-16 code unit (plain `<`). Every step that relies on the sort order
+ * (e.g. the merge in mergeSortedNdjson.ts) must compare keys with this function.
+ */
+export function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+const compareEntries = (a: Entry, b: Entry) => compareKeys(a.key, b.key);
+
+/** Writes one line, waiting for the stream to drain when its buffer is full. */
+async function writeLine(writer: fs.WriteStream, line: string) {
+  if (!writer.write(line + '\n')) {
+    await new Promise<void>((resolve) => writer.once('drain', () => resolve()));
   }
+}
 
-  lines.sort((a, b) => a.uuid.localeCompare(b.uuid));
+/** Writes sorted entries to a file. */
+async function writeEntries(filePath: string, entries: Entry[]) {
+  const writer = fs.createWriteStream(filePath, 'utf-8');
+  for (const entry of entries) await writeLine(writer, entry.line);
+  writer.end();
+  await waitForStreamFinish(writer);
+}
 
-  const writer = fs.createWriteStream(outputPath, 'utf-8');
-  for (const item of lines) writer.write(JSON.stringify(item) + '\n');
+/**
+ * K-way merge of sorted run files into the output. Ties go to the earlier run, which keeps the
+ * sort stable because runs are created in input order.
+ */
+async function mergeRuns(runPaths: string[], outputPath: string, keyOf: (line: string) => string) {
+  const readers = runPaths.map((runPath) =>
+    readline
+      .createInterface({ input: fs.createReadStream(runPath), crlfDelay: Infinity })
+      [Symbol.asyncIterator]()
+  );
+  // Min-heap of the current head line of every run, ordered by (key, run index)
+  const heap: (Entry & { run: number })[] = [];
+  const less = (a: Entry & { run: number }, b: Entry & { run: number }) =>
+    compareEntries(a, b) < 0 || (a.key === b.key && a.run < b.run);
+
+  const push = (item: Entry & { run: number }) => {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!less(heap[i], heap[parent])) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && less(heap[left], heap[smallest])) smallest = left;
+        if (right < heap.length && less(heap[right], heap[smallest])) smallest = right;
+        if (smallest === i) break;
+        [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+  const advance = async (run: number) => {
+    const next = await readers[run].next();
+    if (!next.done) push({ key: keyOf(next.value), line: next.value, run });
+  };
+
+  for (let run = 0; run < readers.length; run++) await advance(run);
 
+  const writer = fs.createWriteStream(outputPath, 'utf-8');
+  while (heap.length) {
+    const { line, run } = pop();
+    await writeLine(writer, line);
+    await advance(run);
+  }
   writer.end();
   await waitForStreamFinish(writer);
+}
+
+/**
+ * Sorts an NDJSON file by key with bounded memory. Resolves with the counts for the run history.
+ */
+async function sortNdjson(
+  inputPath: string,
+  outputPath: string,
+  options: SortNdjsonOptions = {}
+): Promise<{ total: number; skipped: number; runs: number }> {
+  const keyOption = options.key || 'uuid';
+  const getKey =
+    typeof keyOption === 'function' ? keyOption : (item: any) => item?.[keyOption as string];
+  const budget = options.memoryBudgetBytes || defaultMemoryBudget();
+  const tmpDir = options.tmpDir || path.dirname(outputPath);
+  const runPrefix = path.join(tmpDir, `${path.basename(outputPath, '.ndjson')}.run-`);
+
+  logInfo(
+    '[sortNdjson.ts]',
+    `Starting sort for ${inputPath} (memory budget ${Math.round(budget / 1024 / 1024)} MB)`
+  );
+  let total = 0;
+  let failed = 0;
+  let chunk: Entry[] = [];
+  let chunkBytes = 0;
+  const runPaths: string[] = [];
+
+  const spill = async () => {
+    chunk.sort(compareEntries);
+    const runPath = `${runPrefix}${runPaths.length}.ndjson`;
+    runPaths.push(runPath);
+    await writeEntries(runPath, chunk);
+    chunk = [];
+    chunkBytes = 0;
+  };
+
+  try {
+    const rl = readline.createInterface({
+      input: fs.createReadStream(inputPath),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of rl) {
+      let key: unknown;
+      try {
+        key = getKey(JSON.parse(line));
+      } catch (err) {
+        failed++;
+        logError('[sortNdjson.ts]', `Skipping invalid JSON line: ${err}`);
+        continue;
+      }
+      if (typeof key !== 'string') {
+        failed++;
+        logError(
+          '[sortNdjson.ts]',
+          `Skipping line without a string sort key: ${line.slice(0, 80)}`
+        );
+        continue;
+      }
+
+      chunk.push({ key, line });
+      chunkBytes += (line.length + key.length) * 2 + LINE_OVERHEAD_BYTES;
+      total++;
+      if (chunkBytes >= budget) await spill();
+    }
+
+    if (!runPaths.length) {
+      // Everything fit in memory: no run files needed
+      chunk.sort(compareEntries);
+      await writeEntries(outputPath, chunk);
+    } else {
+      if (chunk.length) await spill();
+      // Run lines were validated on the way in, so re-reading their keys can't fail
+      await mergeRuns(runPaths, outputPath, (line) => String(getKey(JSON.parse(line))));
+    }
+  } finally {
+    await Promise.all(runPaths.map((runPath) => fs.promises.rm(runPath, { force: true })));
+  }
 
   logInfo(
     '[sortNdjson.ts]',
-    `Finished sort: ${total} items sorted, ${failed} skipped, output: ${outputPath}`
+    `Finished sort: ${total} items sorted, ${failed} skipped, ${Math.max(runPaths.length, 1)} run(s), output: ${outputPath}`
   );
+  return { total, skipped: failed, runs: Math.max(runPaths.length, 1) };
 }
 
 export default sortNdjson;
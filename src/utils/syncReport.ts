@@ -0,0 +1,125 @@
+/**
+ * Goblin Bookie – Sync Run Reports and Anomaly Checks
+ *
+ * PURPOSE:
+ *   Turns a finished pipeline run (see RunManifest in src/utils/pipeline.ts) into a plain-text
+ *   summary, and flags counts that look wrong compared with the previous run, so
+ *   scripts/runDailySync.ts can notify operators before users notice stale prices.
+ *
+ * CONTEXT:
+ *   - Counts come from the steps themselves (e.g. parseCards `kept`, uploadToMongo `pricePoints`).
+ *   - The previous run is the latest SyncRun with the same backfill mode in which the step
+ *     succeeded; without MongoDB, the previous temp/runManifest.json is used instead.
+ *
+ * CHECKS (WATCHED_COUNTS):
+ *   - Any watched count of zero is an anomaly (e.g. no prices written).
+ *   - Counts marked `drop` are anomalies when they fall more than SYNC_ANOMALY_DROP_PCT percent
+ *     (default 10) below the previous run.
+ */
+
+import SyncRun from '../models/SyncRun';
+import { isDbConnected, RunManifest, StepCounts } from './pipeline';
+
+const DEFAULT_DROP_PCT = 10;
+
+const WATCHED_COUNTS: { step: string; count: string; label: string; drop: boolean }[] = [
+  { step: 'parseCards', count: 'kept', label: 'kept cards', drop: true },
+  { step: 'parsePrices', count: 'kept', label: 'cards with prices', drop: true },
+  { step: 'uploadToMongo', count: 'pricePoints', label: 'price points written', drop: false },
+];
+
+/** Largest tolerated drop (percent) of a watched count versus the previous run. */
+function maxDropPct(): number {
+  const value = parseFloat(process.env.SYNC_ANOMALY_DROP_PCT || '');
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_DROP_PCT;
+}
+
+/**
+ * Counts each watched step reported in the most recent earlier run (same backfill mode).
+ * `localPrevious` is the previous on-disk manifest, used when MongoDB isn't connected.
+ */
+export async function loadPreviousCounts(
+  run: RunManifest,
+  localPrevious: RunManifest | null
+): Promise<Map<string, StepCounts>> {
+  const previous = new Map<string, StepCounts>();
+  const sameMode = (other: RunManifest) => !!other.options?.backfill === !!run.options.backfill;
+
+  for (const { step } of WATCHED_COUNTS) {
+    if (previous.has(step)) continue;
+    let counts: StepCounts | undefined;
+
+    if (isDbConnected()) {
+      const doc: any = await SyncRun.findOne({
+        runId: { $ne: run.runId },
+        'options.backfill': !!run.options.backfill,
+        steps: { $elemMatch: { name: step, status: 'succeeded' } },
+      })
+        .sort({ startedAt: -1 })
+        .lean();
+      counts = doc?.steps.find((s: any) => s.name === step)?.counts;
+    } else if (localPrevious && sameMode(localPrevious)) {
+      counts = localPrevious.steps.find((s) => s.name === step && s.status === 'succeeded')?.counts;
+    }
+
+    if (counts) previous.set(step, counts);
+  }
+  return previous;
+}
+
+/**
+ * Lists suspicious counts in this run's succeeded steps (empty when everything looks normal).
+ */
+export function findAnomalies(run: RunManifest, previous: Map<string, StepCounts>): string[] {
+  const anomalies: string[] = [];
+  const limit = maxDropPct();
+
+  for (const { step, count, label, drop } of WATCHED_COUNTS) {
+    const record = run.steps.find((s) => s.name === step);
+    const value = record?.status === 'succeeded' ? record.counts?.[count] : undefined;
+    if (typeof value !== 'number') continue;
+
+    if (value === 0) {
+      anomalies.push(`${step}: 0 ${label}`);
+      continue;
+    }
+    const before = previous.get(step)?.[count];
+    if (!drop || typeof before !== 'number' || before <= 0) continue;
+
+    const dropPct = ((before - value) / before) * 100;
+    if (dropPct > limit) {
+      anomalies.push(
+        `${step}: ${label} down ${dropPct.toFixed(1)}% (${before} -> ${value}, limit ${limit}%)`
+      );
+    }
+  }
+  return anomalies;
+}
+
+/** Plain-text summary of a run for notifications. */
+export function formatRunSummary(run: RunManifest, anomalies: string[]): string {
+  const seconds = (ms?: number) => (typeof ms === 'number' ? `${(ms / 1000).toFixed(1)}s` : '-');
+  const lines = [
+    `Run:      ${run.runId}${run.resumedFrom ? ` (resumed ${run.resumedFrom})` : ''}`,
+    `Status:   ${run.status}`,
+    `Started:  ${run.startedAt}`,
+    `Finished: ${run.finishedAt || '-'} (${seconds(run.durationMs)})`,
+  ];
+  if (run.options.backfill) {
+    lines.push(`Backfill: ${run.options.since || 'start'} to ${run.options.until || 'end'}`);
+  }
+  if (run.error) lines.push('', `Error: ${run.error}`);
+  if (anomalies.length) lines.push('', 'Anomalies:', ...anomalies.map((a) => `  - ${a}`));
+
+  lines.push('', 'Steps:');
+  for (const step of run.steps) {
+    if (step.status === 'skipped') continue;
+    const counts = Object.entries(step.counts || {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join(', ');
+    lines.push(
+      `  ${step.name}: ${step.status} (${seconds(step.durationMs)})${counts ? ` ${counts}` : ''}`
+    );
+  }
+  return lines.join('\n');
+}
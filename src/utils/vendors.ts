@@ -0,0 +1,95 @@
+/**
+ * Goblin Bookie – Vendor Registry
+ *
+ * PURPOSE:
+ *   The single list of price vendors Goblin Bookie tracks, with what each one publishes:
+ *   display name, currency, price types (retail/buylist), finishes and the MTGJSON
+ *   `purchaseUrls` key for its buy link.
+ *
+ * CONTEXT:
+ *   - Drives the price parser (scripts/parsePrices.ts), record validation, price summaries and
+ *     aggregates, model enums, request validation and the API output, and is served as-is by
+ *     `/api/vendors` so the frontend doesn't hard-code vendors either.
+ *   - Vendor ids are MTGJSON's `paper` price keys (AllPrices.json `data.<uuid>.paper.<id>`).
+ *
+ * ADDING A VENDOR:
+ *   - Add an entry to VENDORS. The next daily sync starts parsing and storing its prices, and it
+ *     is included in cross-vendor averages, movers, arbitrage and every API response from then on.
+ *   - A vendor reporting in a new currency also needs FX rates for it (see src/utils/currency.ts).
+ */
+
+export type PriceKind = 'retail' | 'buylist';
+
+export type VendorDefinition = {
+  /** MTGJSON price key, also the `vendor` stored on every PricePoint */
+  id: string;
+  displayName: string;
+  /** Currency the vendor reports in (used when a price tree carries no `currency` of its own) */
+  currency: string;
+  priceTypes: PriceKind[];
+  finishes: string[];
+  /** Key of the vendor's link in a card's MTGJSON `purchaseUrls`, or null when it has none */
+  purchaseUrlKey: string | null;
+};
+
+/** Every price type and finish any vendor can publish, in display order. */
+export const PRICE_TYPES: PriceKind[] = ['retail', 'buylist'];
+export const FINISHES = ['normal', 'foil', 'etched'];
+
+export const VENDORS: VendorDefinition[] = [
+  {
+    id: 'tcgplayer',
+    displayName: 'TCGplayer',
+    currency: 'USD',
+    priceTypes: ['retail', 'buylist'],
+    finishes: ['normal', 'foil', 'etched'],
+    purchaseUrlKey: 'tcgplayer',
+  },
+  {
+    id: 'cardkingdom',
+    displayName: 'Card Kingdom',
+    currency: 'USD',
+    priceTypes: ['retail', 'buylist'],
+    finishes: ['normal', 'foil', 'etched'],
+    purchaseUrlKey: 'cardKingdom',
+  },
+  {
+    id: 'cardmarket',
+    displayName: 'Cardmarket',
+    currency: 'EUR',
+    priceTypes: ['retail'],
+    finishes: ['normal', 'foil', 'etched'],
+    purchaseUrlKey: 'cardmarket',
+  },
+  {
+    id: 'cardsphere',
+    displayName: 'Cardsphere',
+    currency: 'USD',
+    priceTypes: ['retail'],
+    finishes: ['normal', 'foil'],
+    purchaseUrlKey: null,
+  },
+];
+
+/** Vendor ids in registry order. */
+export const VENDOR_IDS = VENDORS.map((vendor) => vendor.id);
+
+const vendorsById = new Map(VENDORS.map((vendor) => [vendor.id, vendor]));
+
+/** Registry entry for a vendor id, or undefined for an unknown vendor. */
+export function getVendor(id: string): VendorDefinition | undefined {
+  return vendorsById.get(id);
+}
+
+/** Vendors that publish a price type (e.g. only buylist vendors can be sold to). */
+export function vendorsWithPriceType(type: PriceKind): VendorDefinition[] {
+  return VENDORS.filter((vendor) => vendor.priceTypes.includes(type));
+}
+
+/** A card's buy link at a vendor (plain object or Mongoose Map of MTGJSON purchaseUrls), or null. */
+export function getPurchaseUrl(purchaseUrls: any, vendorId: string): string | null {
+  const key = getVendor(vendorId)?.purchaseUrlKey;
+  if (!key || !purchaseUrls) return null;
+  const url = purchaseUrls instanceof Map ? purchaseUrls.get(key) : purchaseUrls[key];
+  return typeof url === 'string' ? url : null;
+}